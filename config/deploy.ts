@@ -0,0 +1,40 @@
+/**
+ * Per-network deployment settings read by the scripts in deploy/.
+ * Networks without an entry use DEFAULT_DEPLOY_CONFIG.
+ */
+export interface DeployConfig {
+  /** Existing ConfidentialToken to reuse instead of deploying a new one */
+  tokenAddress?: string;
+  /** Name, symbol and URI of a newly deployed ConfidentialToken */
+  tokenName: string;
+  tokenSymbol: string;
+  tokenURI: string;
+  /** Owner of a newly deployed ConfidentialToken (default: the deployer) */
+  tokenOwner?: string;
+  /** Owner of RedPacket (default: the deployer). Ownable2Step: the new owner must call acceptOwnership() */
+  redPacketOwner?: string;
+  /** Other ERC-7984 tokens to register with RedPacket */
+  extraTokens: string[];
+  /** Run a create/claim cycle against the fresh deployment */
+  smokeTest: boolean;
+  /** Verify the contracts on Etherscan */
+  verify: boolean;
+}
+
+export const DEFAULT_DEPLOY_CONFIG: DeployConfig = {
+  tokenName: "Confidential Test Token",
+  tokenSymbol: "CTT",
+  tokenURI: "",
+  extraTokens: [],
+  smokeTest: false,
+  verify: false,
+};
+
+export const DEPLOY_CONFIG: Record<string, Partial<DeployConfig>> = {
+  localhost: { smokeTest: true },
+  sepolia: { verify: true },
+};
+
+export function getDeployConfig(network: string): DeployConfig {
+  return { ...DEFAULT_DEPLOY_CONFIG, ...DEPLOY_CONFIG[network] };
+}
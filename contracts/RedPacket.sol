@@ -1,15 +1,23 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, eaddress, ebool, euint64, euint128, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {Ownable2Step, Ownable} from "@openzeppelin/contracts/access/Ownable2Step.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 import {IERC7984} from "./tokens/IERC7984.sol";
+import {IERC7984Receiver} from "./tokens/IERC7984Receiver.sol";
 
 /// @title Encrypted Red Packet 
 /// @author anyoneisme1999
 /// @notice A simple red packet system with normal and random distribution
-/// @dev Uses FHEVM for encrypted amounts and async decryption for settlements
-contract RedPacket is SepoliaConfig {
+/// @dev Uses FHEVM for encrypted amounts and async decryption for settlements.
+///      Packets can hold any ERC-7984 token registered by the owner.
+contract RedPacket is SepoliaConfig, EIP712, Ownable2Step, IERC7984Receiver {
     // ========== Enums ==========
     
     enum RedPacketType {
@@ -20,7 +28,8 @@ contract RedPacket is SepoliaConfig {
     enum RedPacketStatus {
         ACTIVE,     // Active
         EXPIRED,    // Expired
-        EMPTY       // Empty
+        EMPTY,      // Empty
+        CANCELLED   // Cancelled by the creator
     }
     
     // ========== Structs ==========
@@ -29,32 +38,117 @@ contract RedPacket is SepoliaConfig {
     struct RedPacketInfo {
         uint256 id;
         address creator;
+        address token;          // ERC-7984 token the packet holds and pays out
         RedPacketType packetType;
         RedPacketStatus status;
         euint64 encryptedTotalAmount;
+        euint64 encryptedRemainingAmount; // Readable by the creator, zero once refunded
+        euint64 encryptedClaimedAmount;   // Paid out so far, readable by the creator; unset until the first claim
         uint256 totalCount;
         uint256 remainingCount;
+        uint256 startTime;      // Claims open at this time, the creation time unless scheduled
         uint256 expireTime;
         string message;
+        bytes32 merkleRoot;     // Allowlist root, zero when anyone can claim
+        address passwordSigner; // Address of the password-derived key, zero when no password is required
+        bytes32 passwordSalt;   // Per-packet salt the password key is derived with
+        bool voucherRequired;   // Whether claims need a ClaimVoucher signed by the creator
         uint256 createdAt;
         bool exists;
     }
     
+    /// @notice Optional restrictions on who can claim a red packet, set at creation
+    /// @dev The zero value (no root, no password, no voucher) creates a packet anyone can claim
+    struct ClaimRestrictions {
+        bytes32 merkleRoot;         // Allowlist root, see claimRedPacketWithProof
+        address passwordSigner;     // Address of the password-derived key, see claimRedPacketWithPassword
+        bytes32 passwordSalt;       // Random salt of the key derivation, so one password gives a new key per packet
+        bool voucherRequired;       // Require a creator-signed voucher, see claimRedPacketWithVoucher
+    }
+    
+    /// @notice Parameters of a new red packet, ABI-encoded as the `data` of confidentialTransferAndCall
+    struct RedPacketParams {
+        RedPacketType packetType;
+        uint256 totalCount;
+        uint256 startTime;          // Zero to open on creation
+        uint256 expireTime;
+        string message;
+        ClaimRestrictions restrictions;
+    }
+    
+    /// @notice Credentials presented when claiming a restricted red packet
+    /// @dev Fields for restrictions the packet does not use are ignored and may be left empty
+    struct ClaimAuthorization {
+        bytes32[] proof;            // Allowlist Merkle proof
+        bytes passwordSignature;    // Signature of passwordClaimHash by the password-derived key
+        uint256 voucherDeadline;    // Deadline of the creator's ClaimVoucher
+        bytes voucherSignature;     // Creator's EIP-712 signature of the ClaimVoucher
+    }
+    
     /// @notice Claim record structure
     struct ClaimInfo {
         address user;
         euint64 amount;
         uint256 timestamp;
         bool exists;
+        bool disclosureRequested;
+        bool disclosed;
+        uint64 disclosedAmount; // Only meaningful once disclosed, the claimer chose to make it public
+    }
+    
+    /// @notice Claim record waiting for the decryption oracle after discloseClaimAmount
+    struct DisclosureRequest {
+        uint256 redPacketId;
+        address claimer;
+    }
+    
+    /// @notice Largest share of a RANDOM packet so far and who got it, kept encrypted until revealed
+    struct LuckyKing {
+        euint64 share;          // Never decrypted, not even when the winner is revealed
+        eaddress claimer;       // First claimer with the largest share
+        bool revealRequested;
+        address revealed;       // Zero until the decryption oracle answers
     }
     
+    // ========== Constants ==========
+    
+    /// @notice Minimum share (in token base units) paid to each claimer of a RANDOM packet
+    uint64 public constant MIN_RANDOM_SHARE = 1;
+    
+    /// @notice Maximum number of entries returned by one page of a paginated view
+    uint256 public constant MAX_PAGE_SIZE = 100;
+    
+    /// @notice Maximum number of red packets finalizeExpiredRedPackets accepts per call
+    /// @dev Every refund is a confidential transfer out of this contract's balance, each one deeper than the
+    ///      last, so a batch is bounded by the FHEVM limit on homomorphic work per transaction rather than by gas
+    uint256 public constant MAX_FINALIZE_BATCH = 20;
+    
+    /// @notice Maximum number of recipients of an equal (NORMAL) airdrop
+    /// @dev Bounded by the FHEVM limit on homomorphic work per transaction, with headroom
+    uint256 public constant MAX_EQUAL_AIRDROP_RECIPIENTS = 10;
+    
+    /// @notice Maximum number of recipients of a random (RANDOM) airdrop
+    /// @dev Random shares are drawn one after another from the remaining amount, each draw deeper than the last,
+    ///      so a third draw exceeds the FHEVM limit on the depth of homomorphic work per transaction
+    uint256 public constant MAX_RANDOM_AIRDROP_RECIPIENTS = 2;
+    
+    /// @notice EIP-712 type hash of a creator-signed claim voucher
+    bytes32 public constant CLAIM_VOUCHER_TYPEHASH =
+        keccak256("ClaimVoucher(uint256 redPacketId,address claimer,uint256 deadline)");
+    
     // ========== State Variables ==========
     
-    IERC7984 public immutable TOKEN;
+    mapping(address token => bool supported) public isTokenSupported;
+    address[] private supportedTokens;
     uint256 public redPacketCount;
     mapping(uint256 redPacketId => RedPacketInfo packet) public redPackets;
     mapping(uint256 redPacketId => mapping(address user => ClaimInfo record)) public claimRecords;
     mapping(uint256 redPacketId => address[] claimers) public redPacketClaimers;
+    mapping(address creator => uint256[] redPacketIds) private createdRedPacketIds;
+    mapping(address user => uint256[] redPacketIds) private claimedRedPacketIds;
+    mapping(uint256 redPacketId => LuckyKing luckyKing) private luckyKings;
+    mapping(uint256 requestId => uint256 redPacketId) private luckyKingRequests;
+    mapping(uint256 requestId => DisclosureRequest request) private disclosureRequests;
     
     // ========== Events ==========
     
@@ -75,6 +169,16 @@ contract RedPacket is SepoliaConfig {
     
     event RedPacketExpired(uint256 indexed redPacketId);
     
+    event RedPacketCancelled(uint256 indexed redPacketId, uint256 unclaimedCount);
+    
+    event LuckyKingRevealed(uint256 indexed redPacketId, address indexed luckyKing);
+    
+    event ClaimAmountDisclosed(uint256 indexed redPacketId, address indexed claimer, uint64 amount);
+    
+    event TokenAdded(address indexed token);
+    
+    event TokenRemoved(address indexed token);
+    
     // ========== Errors ==========
     
     error RedPacketNotFound();
@@ -83,79 +187,432 @@ contract RedPacket is SepoliaConfig {
     error AlreadyClaimed();
     error InvalidCount();
     error InvalidExpireTime();
+    error InvalidStartTime();
     error InvalidTokenAddress();
+    error NotRedPacketCreator();
+    error RedPacketNotExpired();
+    error RedPacketNotStarted();
+    error AlreadyRefunded();
+    error RedPacketNotActive();
+    error NotAllowlisted();
+    error InvalidPassword();
+    error InvalidVoucher();
+    error VoucherExpired();
+    error UnsupportedToken();
+    error TokenAlreadySupported();
+    error InvalidRecipient();
+    error NotRandomRedPacket();
+    error RedPacketNotEmpty();
+    error LuckyKingAlreadyRequested();
+    error ClaimNotFound();
+    error DisclosureAlreadyRequested();
+    error DecryptionRequestNotPending();
     
     // ========== Constructor ==========
     
-    constructor(address _token) {
-        if (_token == address(0)) revert InvalidTokenAddress();
-        TOKEN = IERC7984(_token);
+    /// @param _token First supported token; the deployer becomes the owner and can register more
+    constructor(address _token) EIP712("RedPacket", "1") Ownable(msg.sender) {
+        _addToken(_token);
+    }
+    
+    // ========== Token Registry ==========
+    
+    /// @notice Allow red packets to be created with `token` (owner only)
+    function addToken(address token) external onlyOwner {
+        _addToken(token);
+    }
+    
+    /// @notice Stop new red packets from being created with `token` (owner only)
+    /// @dev Existing packets keep paying out and refunding in the token they hold
+    function removeToken(address token) external onlyOwner {
+        if (!isTokenSupported[token]) revert UnsupportedToken();
+        
+        isTokenSupported[token] = false;
+        uint256 last = supportedTokens.length - 1;
+        for (uint256 i = 0; i < last; i++) {
+            if (supportedTokens[i] == token) {
+                supportedTokens[i] = supportedTokens[last];
+                break;
+            }
+        }
+        supportedTokens.pop();
+        
+        emit TokenRemoved(token);
     }
     
     // ========== Core Functions ==========
     
-    /// @notice Create a new red packet
+    /// @notice Create a new red packet, pulling the funds from msg.sender
+    /// @dev Requires this contract to be an operator of msg.sender on the token. To create a packet
+    ///      without operator approval, send the funds with confidentialTransferAndCall instead.
+    /// @param token Supported ERC-7984 token to fund the packet with
+    /// @param startTime When claims open, zero to open them right away; must be before expireTime
+    /// @param restrictions Allowlist, password and voucher requirements for claimers, all optional
     function createRedPacket(
+        address token,
         RedPacketType packetType,
         externalEuint64 encryptedAmount,
         bytes calldata inputProof,
         uint256 totalCount,
+        uint256 startTime,
         uint256 expireTime,
-        string calldata message
+        string calldata message,
+        ClaimRestrictions calldata restrictions
     ) external returns (uint256) {
-        // Validate parameters
-        if (totalCount == 0 || totalCount > 100) revert InvalidCount();
-        if (expireTime <= block.timestamp) revert InvalidExpireTime();
-        if (expireTime > block.timestamp + 30 days) revert InvalidExpireTime();
+        RedPacketParams memory params = RedPacketParams({
+            packetType: packetType,
+            totalCount: totalCount,
+            startTime: startTime,
+            expireTime: expireTime,
+            message: message,
+            restrictions: restrictions
+        });
+        if (!isTokenSupported[token]) revert UnsupportedToken();
+        _validateParams(params);
         
         // Transfer tokens from user to contract
-        euint64 amount = TOKEN.confidentialTransferFrom(
+        euint64 amount = IERC7984(token).confidentialTransferFrom(
+            msg.sender,
+            address(this),
+            encryptedAmount,
+            inputProof
+        );
+        
+        return _createRedPacket(msg.sender, token, amount, params);
+    }
+    
+    /// @notice Create a red packet from the tokens sent with confidentialTransferAndCall of a supported token
+    /// @dev `data` is the ABI-encoded RedPacketParams and `from` becomes the creator. Invalid
+    ///      parameters revert, which reverts the whole transfer so the sender keeps their tokens.
+    function onConfidentialTransferReceived(
+        address /* operator */,
+        address from,
+        euint64 amount,
+        bytes calldata data
+    ) external returns (ebool) {
+        if (!isTokenSupported[msg.sender]) revert UnsupportedToken();
+        
+        RedPacketParams memory params = abi.decode(data, (RedPacketParams));
+        _validateParams(params);
+        _createRedPacket(from, msg.sender, amount, params);
+        
+        // Accept the transfer; the token needs access to the result to settle it
+        ebool accepted = FHE.asEbool(true);
+        FHE.allowTransient(accepted, msg.sender);
+        return accepted;
+    }
+    
+    /// @notice Pay a list of recipients directly, splitting an encrypted total equally or randomly
+    /// @dev Creates a packet with one share per recipient and pays every share in this call, so the packet
+    ///      is EMPTY right away. Each payment is recorded like a claim (ClaimInfo, claimers list and
+    ///      RedPacketClaimed event), which keeps the views and indexers working. Pulls the funds like
+    ///      createRedPacket, so this contract must be an operator of msg.sender on the token.
+    ///      The FHEVM limits on homomorphic work per transaction cap the recipients of one call at
+    ///      MAX_EQUAL_AIRDROP_RECIPIENTS for an equal split and MAX_RANDOM_AIRDROP_RECIPIENTS for a random one.
+    /// @param recipients Distinct addresses; split longer equal airdrops over several calls
+    function airdrop(
+        address token,
+        RedPacketType packetType,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        address[] calldata recipients,
+        string calldata message
+    ) external returns (uint256 redPacketId) {
+        if (!isTokenSupported[token]) revert UnsupportedToken();
+        uint256 maxRecipients = packetType == RedPacketType.RANDOM
+            ? MAX_RANDOM_AIRDROP_RECIPIENTS
+            : MAX_EQUAL_AIRDROP_RECIPIENTS;
+        if (recipients.length == 0 || recipients.length > maxRecipients) revert InvalidCount();
+        
+        euint64 amount = IERC7984(token).confidentialTransferFrom(
             msg.sender,
             address(this),
             encryptedAmount,
             inputProof
         );
         
+        // Nothing is left to claim once the call returns, so the packet expires immediately
+        RedPacketParams memory params;
+        params.packetType = packetType;
+        params.totalCount = recipients.length;
+        params.expireTime = block.timestamp;
+        params.message = message;
+        redPacketId = _createRedPacket(msg.sender, token, amount, params);
+        
+        RedPacketInfo storage packet = redPackets[redPacketId];
+        for (uint256 i = 0; i < recipients.length; i++) {
+            if (recipients[i] == address(0)) revert InvalidRecipient();
+            if (claimRecords[redPacketId][recipients[i]].exists) revert AlreadyClaimed();
+            _payShare(packet, recipients[i]);
+        }
+    }
+    
+    /// @notice Claim a red packet
+    function claimRedPacket(uint256 redPacketId) external {
+        ClaimAuthorization memory authorization;
+        _claimRedPacket(redPacketId, authorization);
+    }
+    
+    /// @notice Claim an allowlist-restricted red packet
+    /// @param proof Merkle proof that msg.sender is a leaf of the packet's merkleRoot
+    function claimRedPacketWithProof(uint256 redPacketId, bytes32[] calldata proof) external {
+        ClaimAuthorization memory authorization;
+        authorization.proof = proof;
+        _claimRedPacket(redPacketId, authorization);
+    }
+    
+    /// @notice Claim a password-protected red packet
+    /// @dev The password itself never goes on-chain: the claimer proves knowledge of it by signing
+    ///      passwordClaimHash(redPacketId, msg.sender) with the password-derived key. The signature
+    ///      is bound to msg.sender, so copying it from the mempool does not let anyone else claim.
+    /// @param passwordSignature EIP-191 signature of passwordClaimHash by the packet's passwordSigner
+    /// @param proof Merkle proof for allowlist-restricted packets, empty otherwise
+    function claimRedPacketWithPassword(
+        uint256 redPacketId,
+        bytes calldata passwordSignature,
+        bytes32[] calldata proof
+    ) external {
+        ClaimAuthorization memory authorization;
+        authorization.proof = proof;
+        authorization.passwordSignature = passwordSignature;
+        _claimRedPacket(redPacketId, authorization);
+    }
+    
+    /// @notice Claim a red packet that requires a creator-signed voucher
+    /// @dev The voucher is the creator's EIP-712 signature of
+    ///      ClaimVoucher(redPacketId, msg.sender, deadline). It cannot be replayed: it only
+    ///      authorizes msg.sender, on this packet, before the deadline, and each address claims once.
+    /// @param deadline Timestamp after which the voucher is no longer accepted
+    /// @param voucherSignature Creator's signature, ECDSA or ERC-1271 for contract creators
+    function claimRedPacketWithVoucher(
+        uint256 redPacketId,
+        uint256 deadline,
+        bytes calldata voucherSignature
+    ) external {
+        ClaimAuthorization memory authorization;
+        authorization.voucherDeadline = deadline;
+        authorization.voucherSignature = voucherSignature;
+        _claimRedPacket(redPacketId, authorization);
+    }
+    
+    /// @notice Claim a red packet with any combination of allowlist proof, password and voucher
+    function claimRedPacketWithAuthorization(
+        uint256 redPacketId,
+        ClaimAuthorization calldata authorization
+    ) external {
+        _claimRedPacket(redPacketId, authorization);
+    }
+    
+    /// @notice Refund the unclaimed balance of an expired red packet to its creator
+    function refundRedPacket(uint256 redPacketId) external {
+        RedPacketInfo storage packet = redPackets[redPacketId];
+        
+        // Validate red packet
+        if (!packet.exists) revert RedPacketNotFound();
+        if (msg.sender != packet.creator) revert NotRedPacketCreator();
+        if (packet.status == RedPacketStatus.EXPIRED) revert AlreadyRefunded();
+        if (packet.status == RedPacketStatus.EMPTY) revert RedPacketEmpty();
+        if (packet.status != RedPacketStatus.ACTIVE) revert RedPacketNotActive();
+        if (block.timestamp <= packet.expireTime) revert RedPacketNotExpired();
+        
+        _expireRedPacket(packet);
+    }
+    
+    /// @notice Mark expired red packets as EXPIRED and refund their unclaimed balance to their creators
+    /// @dev Permissionless, so keepers can keep stored statuses up to date. Ids that are not ACTIVE and
+    ///      past their expiry (unknown, already refunded, empty, cancelled or still running) are skipped
+    ///      rather than reverting, so a batch does not fail when a creator refunds one of its packets first.
+    /// @param redPacketIds 1 to MAX_FINALIZE_BATCH red packet ids
+    /// @return finalized Number of red packets that were expired and refunded
+    function finalizeExpiredRedPackets(uint256[] calldata redPacketIds) external returns (uint256 finalized) {
+        if (redPacketIds.length == 0 || redPacketIds.length > MAX_FINALIZE_BATCH) revert InvalidCount();
+        
+        for (uint256 i = 0; i < redPacketIds.length; i++) {
+            RedPacketInfo storage packet = redPackets[redPacketIds[i]];
+            if (!packet.exists || packet.status != RedPacketStatus.ACTIVE) continue;
+            if (block.timestamp <= packet.expireTime) continue;
+            
+            _expireRedPacket(packet);
+            finalized++;
+        }
+    }
+    
+    /// @notice Cancel an active red packet and return the unclaimed balance to its creator
+    function cancelRedPacket(uint256 redPacketId) external {
+        RedPacketInfo storage packet = redPackets[redPacketId];
+        
+        // Validate red packet
+        if (!packet.exists) revert RedPacketNotFound();
+        if (msg.sender != packet.creator) revert NotRedPacketCreator();
+        if (packet.status != RedPacketStatus.ACTIVE) revert RedPacketNotActive();
+        if (block.timestamp > packet.expireTime) revert RedPacketExpiredError();
+        
+        packet.status = RedPacketStatus.CANCELLED;
+        _returnRemainingToCreator(packet);
+        
+        emit RedPacketCancelled(redPacketId, packet.remainingCount);
+    }
+    
+    // ========== Lucky King ==========
+    
+    /// @notice Ask the decryption oracle to reveal who got the largest share of a fully claimed RANDOM packet
+    /// @dev Anyone can call it once per packet. Only the winner's address is made publicly decryptable,
+    ///      the shares stay encrypted. LuckyKingRevealed is emitted when the oracle calls back.
+    function revealLuckyKing(uint256 redPacketId) external returns (uint256 requestId) {
+        RedPacketInfo storage packet = redPackets[redPacketId];
+        
+        if (!packet.exists) revert RedPacketNotFound();
+        if (packet.packetType != RedPacketType.RANDOM) revert NotRandomRedPacket();
+        if (packet.status != RedPacketStatus.EMPTY) revert RedPacketNotEmpty();
+        
+        LuckyKing storage luckyKing = luckyKings[redPacketId];
+        if (luckyKing.revealRequested) revert LuckyKingAlreadyRequested();
+        luckyKing.revealRequested = true;
+        
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(luckyKing.claimer);
+        requestId = FHE.requestDecryption(handles, this.luckyKingCallback.selector);
+        luckyKingRequests[requestId] = redPacketId;
+    }
+    
+    /// @notice Decryption oracle callback of revealLuckyKing
+    /// @dev The KMS signatures are checked, so only a genuine decryption of the requested handle is accepted.
+    ///      A request is answered once: replaying the same proof reverts instead of emitting the event again.
+    function luckyKingCallback(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        
+        uint256 redPacketId = luckyKingRequests[requestId];
+        LuckyKing storage luckyKing = luckyKings[redPacketId];
+        if (!luckyKing.revealRequested || luckyKing.revealed != address(0)) revert DecryptionRequestNotPending();
+        
+        address winner = abi.decode(cleartexts, (address));
+        luckyKing.revealed = winner;
+        
+        emit LuckyKingRevealed(redPacketId, winner);
+    }
+    
+    // ========== Claim Disclosure ==========
+    
+    /// @notice Publicly disclose the amount the caller received from a red packet
+    /// @dev Opt-in and once per claim: only the caller's own amount is made publicly decryptable.
+    ///      The clear amount is stored on the claim record and ClaimAmountDisclosed is emitted when the oracle
+    ///      calls back.
+    function discloseClaimAmount(uint256 redPacketId) external returns (uint256 requestId) {
+        ClaimInfo storage record = claimRecords[redPacketId][msg.sender];
+        
+        if (!record.exists) revert ClaimNotFound();
+        if (record.disclosureRequested) revert DisclosureAlreadyRequested();
+        record.disclosureRequested = true;
+        
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(record.amount);
+        requestId = FHE.requestDecryption(handles, this.claimDisclosureCallback.selector);
+        disclosureRequests[requestId] = DisclosureRequest({ redPacketId: redPacketId, claimer: msg.sender });
+    }
+    
+    /// @notice Decryption oracle callback of discloseClaimAmount
+    /// @dev The KMS signatures are checked, so only a genuine decryption of the requested handle is accepted.
+    ///      A request is answered once: replaying the same proof reverts instead of rewriting the record.
+    function claimDisclosureCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        
+        DisclosureRequest memory request = disclosureRequests[requestId];
+        // An unknown request decodes to a zero claimer, which never has a claim record
+        if (request.claimer == address(0)) revert DecryptionRequestNotPending();
+        ClaimInfo storage record = claimRecords[request.redPacketId][request.claimer];
+        if (record.disclosed) revert DecryptionRequestNotPending();
+        delete disclosureRequests[requestId];
+        
+        uint64 amount = abi.decode(cleartexts, (uint64));
+        record.disclosed = true;
+        record.disclosedAmount = amount;
+        
+        emit ClaimAmountDisclosed(request.redPacketId, request.claimer, amount);
+    }
+    
+    // ========== Internal Functions ==========
+    
+    /// @notice Register a token red packets can be created with
+    function _addToken(address token) private {
+        if (token == address(0)) revert InvalidTokenAddress();
+        if (isTokenSupported[token]) revert TokenAlreadySupported();
+        
+        isTokenSupported[token] = true;
+        supportedTokens.push(token);
+        
+        emit TokenAdded(token);
+    }
+    
+    /// @notice Revert unless the packet parameters are within bounds
+    function _validateParams(RedPacketParams memory params) private view {
+        if (params.totalCount == 0 || params.totalCount > 100) revert InvalidCount();
+        if (params.expireTime <= block.timestamp) revert InvalidExpireTime();
+        if (params.expireTime > block.timestamp + 30 days) revert InvalidExpireTime();
+        // A scheduled start lies between now and the expiry, so it is within the 30-day window too
+        if (params.startTime != 0) {
+            if (params.startTime < block.timestamp || params.startTime >= params.expireTime) revert InvalidStartTime();
+        }
+    }
+    
+    /// @notice Store a new red packet funded with `amount`, already held by this contract
+    function _createRedPacket(
+        address creator,
+        address token,
+        euint64 amount,
+        RedPacketParams memory params
+    ) private returns (uint256 redPacketId) {
         // Set ACL permissions
         FHE.allowThis(amount);
-        FHE.allow(amount, msg.sender);
+        FHE.allow(amount, creator);
         
-        uint256 redPacketId = redPacketCount++;
+        redPacketId = redPacketCount++;
+        createdRedPacketIds[creator].push(redPacketId);
         
         // Create red packet
         redPackets[redPacketId] = RedPacketInfo({
             id: redPacketId,
-            creator: msg.sender,
-            packetType: packetType,
+            creator: creator,
+            token: token,
+            packetType: params.packetType,
             status: RedPacketStatus.ACTIVE,
             encryptedTotalAmount: amount,
-            totalCount: totalCount,
-            remainingCount: totalCount,
-            expireTime: expireTime,
-            message: message,
+            encryptedRemainingAmount: amount,
+            encryptedClaimedAmount: euint64.wrap(0),
+            totalCount: params.totalCount,
+            remainingCount: params.totalCount,
+            startTime: params.startTime == 0 ? block.timestamp : params.startTime,
+            expireTime: params.expireTime,
+            message: params.message,
+            merkleRoot: params.restrictions.merkleRoot,
+            passwordSigner: params.restrictions.passwordSigner,
+            passwordSalt: params.restrictions.passwordSalt,
+            voucherRequired: params.restrictions.voucherRequired,
             createdAt: block.timestamp,
             exists: true
         });
         
         emit RedPacketCreated(
             redPacketId,
-            msg.sender,
-            packetType,
-            totalCount,
-            expireTime,
-            message
+            creator,
+            params.packetType,
+            params.totalCount,
+            params.expireTime,
+            params.message
         );
-        
-        return redPacketId;
     }
     
-    /// @notice Claim a red packet
-    function claimRedPacket(uint256 redPacketId) external {
+    /// @notice Validate and pay out a claim for msg.sender
+    function _claimRedPacket(uint256 redPacketId, ClaimAuthorization memory authorization) private {
         RedPacketInfo storage packet = redPackets[redPacketId];
         
         // Validate red packet
         if (!packet.exists) revert RedPacketNotFound();
         if (packet.status != RedPacketStatus.ACTIVE) revert RedPacketExpiredError();
+        if (block.timestamp < packet.startTime) revert RedPacketNotStarted();
         if (block.timestamp > packet.expireTime) {
             revert RedPacketExpiredError();
         }
@@ -166,18 +623,39 @@ contract RedPacket is SepoliaConfig {
         // Check if already claimed
         if (claimRecords[redPacketId][msg.sender].exists) revert AlreadyClaimed();
         
-        // Calculate claim amount (simplified: equal distribution for both types)
-        euint64 claimAmount = packet.encryptedTotalAmount;
+        // Check allowlist, password and voucher
+        _checkClaimAccess(packet, authorization);
+        
+        _payShare(packet, msg.sender);
+    }
+    
+    /// @notice Pay the next share of a packet to `recipient` and record it as their claim
+    /// @dev Callers must check that the packet has shares left and that `recipient` has not claimed yet
+    function _payShare(RedPacketInfo storage packet, address recipient) private {
+        uint256 redPacketId = packet.id;
+        
+        // Calculate claim amount and deduct it from the remaining balance
+        euint64 claimAmount = _computeClaimAmount(packet);
+        packet.encryptedRemainingAmount = FHE.sub(packet.encryptedRemainingAmount, claimAmount);
+        FHE.allowThis(packet.encryptedRemainingAmount);
+        FHE.allow(packet.encryptedRemainingAmount, packet.creator);
+        packet.encryptedClaimedAmount = FHE.add(packet.encryptedClaimedAmount, claimAmount);
+        FHE.allowThis(packet.encryptedClaimedAmount);
+        FHE.allow(packet.encryptedClaimedAmount, packet.creator);
         
         // Record the claim
-        claimRecords[redPacketId][msg.sender] = ClaimInfo({
-            user: msg.sender,
+        claimRecords[redPacketId][recipient] = ClaimInfo({
+            user: recipient,
             amount: claimAmount,
             timestamp: block.timestamp,
-            exists: true
+            exists: true,
+            disclosureRequested: false,
+            disclosed: false,
+            disclosedAmount: 0
         });
         
-        redPacketClaimers[redPacketId].push(msg.sender);
+        redPacketClaimers[redPacketId].push(recipient);
+        claimedRedPacketIds[recipient].push(redPacketId);
         packet.remainingCount--;
         
         // Update status if empty
@@ -185,14 +663,155 @@ contract RedPacket is SepoliaConfig {
             packet.status = RedPacketStatus.EMPTY;
         }
         
-        // Transfer tokens to user
+        // Transfer tokens to the recipient
         FHE.allowThis(claimAmount);
-        FHE.allow(claimAmount, msg.sender);
-        FHE.allow(claimAmount, address(TOKEN));
+        FHE.allow(claimAmount, recipient);
+        FHE.allow(claimAmount, packet.token);
+        
+        IERC7984(packet.token).confidentialTransfer(recipient, claimAmount);
+        
+        if (packet.packetType == RedPacketType.RANDOM) {
+            _updateLuckyKing(redPacketId, claimAmount, recipient);
+        }
+        
+        emit RedPacketClaimed(redPacketId, recipient, packet.remainingCount);
+    }
+    
+    /// @notice Keep the largest share of a RANDOM packet and its claimer up to date, under FHE
+    /// @dev On a tie the earlier claimer stays lucky king
+    function _updateLuckyKing(uint256 redPacketId, euint64 share, address claimer) private {
+        LuckyKing storage luckyKing = luckyKings[redPacketId];
+        eaddress encryptedClaimer = FHE.asEaddress(claimer);
+        
+        if (!FHE.isInitialized(luckyKing.share)) {
+            luckyKing.share = share;
+            luckyKing.claimer = encryptedClaimer;
+        } else {
+            ebool isLarger = FHE.gt(share, luckyKing.share);
+            luckyKing.share = FHE.select(isLarger, share, luckyKing.share);
+            luckyKing.claimer = FHE.select(isLarger, encryptedClaimer, luckyKing.claimer);
+        }
+        
+        FHE.allowThis(luckyKing.share);
+        FHE.allowThis(luckyKing.claimer);
+    }
+    
+    /// @notice Revert unless msg.sender passes the packet's allowlist, password and voucher restrictions
+    function _checkClaimAccess(RedPacketInfo storage packet, ClaimAuthorization memory authorization) private view {
+        if (!_isAllowlisted(packet.merkleRoot, msg.sender, authorization.proof)) revert NotAllowlisted();
+        
+        if (packet.passwordSigner != address(0)) {
+            bytes32 digest = MessageHashUtils.toEthSignedMessageHash(passwordClaimHash(packet.id, msg.sender));
+            (address recovered, , ) = ECDSA.tryRecover(digest, authorization.passwordSignature);
+            if (recovered != packet.passwordSigner) revert InvalidPassword();
+        }
+        
+        if (packet.voucherRequired) {
+            _checkVoucher(packet, authorization.voucherDeadline, authorization.voucherSignature);
+        }
+    }
+    
+    /// @notice Revert unless the creator signed a ClaimVoucher for msg.sender that has not expired
+    function _checkVoucher(RedPacketInfo storage packet, uint256 deadline, bytes memory signature) private view {
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(CLAIM_VOUCHER_TYPEHASH, packet.id, msg.sender, deadline))
+        );
+        if (!SignatureChecker.isValidSignatureNow(packet.creator, digest, signature)) revert InvalidVoucher();
+        if (block.timestamp > deadline) revert VoucherExpired();
+    }
+    
+    /// @notice Check whether an account may claim a packet with the given root
+    /// @dev Leaves follow the OpenZeppelin StandardMerkleTree encoding for an `address` value,
+    ///      i.e. keccak256(bytes.concat(keccak256(abi.encode(account))))
+    function _isAllowlisted(bytes32 merkleRoot, address account, bytes32[] memory proof) private pure returns (bool) {
+        if (merkleRoot == bytes32(0)) {
+            return true;
+        }
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account))));
+        return MerkleProof.verify(proof, merkleRoot, leaf);
+    }
+    
+    /// @notice Mark an expired packet as EXPIRED and refund its unclaimed balance to the creator
+    /// @dev Callers must check that the packet is ACTIVE and past its expire time
+    function _expireRedPacket(RedPacketInfo storage packet) private {
+        packet.status = RedPacketStatus.EXPIRED;
+        _returnRemainingToCreator(packet);
+        
+        emit RedPacketExpired(packet.id);
+    }
+    
+    /// @notice Transfer the encrypted remaining balance of a packet back to its creator
+    /// @dev Callers must update the packet status first so the balance cannot be paid out twice
+    function _returnRemainingToCreator(RedPacketInfo storage packet) private {
+        // Move the remaining balance out of the packet before transferring it
+        euint64 refundAmount = packet.encryptedRemainingAmount;
+        packet.encryptedRemainingAmount = FHE.asEuint64(0);
+        FHE.allowThis(packet.encryptedRemainingAmount);
+        FHE.allow(packet.encryptedRemainingAmount, packet.creator);
+        
+        // Transfer remaining tokens back to the creator
+        FHE.allow(refundAmount, packet.token);
+        IERC7984(packet.token).confidentialTransfer(packet.creator, refundAmount);
+    }
+    
+    /// @notice Compute the encrypted share for the next claimer
+    /// @dev Must be called before remainingCount is decremented. The last claimer
+    ///      takes whatever is left so no dust stays locked in the contract.
+    function _computeClaimAmount(RedPacketInfo storage packet) private returns (euint64) {
+        if (packet.remainingCount == 1) {
+            return packet.encryptedRemainingAmount;
+        }
+        
+        if (packet.packetType == RedPacketType.RANDOM) {
+            return _computeRandomShare(packet.encryptedRemainingAmount, uint64(packet.remainingCount));
+        }
+        
+        // Equal distribution: total / totalCount, rounded down
+        return FHE.div(packet.encryptedTotalAmount, uint64(packet.totalCount));
+    }
+    
+    /// @notice Draw a random share using the double-average algorithm
+    /// @dev The share is uniform in [0, 2 * remaining / count) and then clamped so that it is at least
+    ///      MIN_RANDOM_SHARE and leaves MIN_RANDOM_SHARE for each of the other (count - 1) claimers.
+    ///      Requires count >= 2, which guarantees 2 * (remaining / count) <= remaining.
+    function _computeRandomShare(euint64 remaining, uint64 count) private returns (euint64) {
+        euint64 average = FHE.div(remaining, count);
+        euint64 upperBound = FHE.add(average, average);
+        
+        // upperBound * rand16 / 2^16, computed on 128 bits to avoid overflow
+        euint128 scaled = FHE.mul(FHE.asEuint128(upperBound), FHE.randEuint16());
+        euint64 share = FHE.asEuint64(FHE.shr(scaled, 16));
         
-        TOKEN.confidentialTransfer(msg.sender, claimAmount);
+        share = FHE.max(share, MIN_RANDOM_SHARE);
+        share = FHE.min(share, FHE.sub(remaining, MIN_RANDOM_SHARE * (count - 1)));
         
-        emit RedPacketClaimed(redPacketId, msg.sender, packet.remainingCount);
+        // Not enough left to guarantee the minimum for everyone: fall back to an equal split
+        ebool hasMinimumForAll = FHE.ge(remaining, MIN_RANDOM_SHARE * count);
+        return FHE.select(hasMinimumForAll, share, average);
+    }
+    
+    /// @notice Clamp a page to [0, length) and MAX_PAGE_SIZE
+    function _pageBounds(
+        uint256 length,
+        uint256 offset,
+        uint256 limit
+    ) private pure returns (uint256 start, uint256 end) {
+        if (limit > MAX_PAGE_SIZE) limit = MAX_PAGE_SIZE;
+        start = offset < length ? offset : length;
+        end = length - start < limit ? length : start + limit;
+    }
+    
+    /// @notice Copy a page of a stored id list to memory
+    function _idsPage(
+        uint256[] storage ids,
+        uint256 offset,
+        uint256 limit
+    ) private view returns (uint256[] memory page) {
+        (uint256 start, uint256 end) = _pageBounds(ids.length, offset, limit);
+        page = new uint256[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            page[i - start] = ids[i];
+        }
     }
     
     // ========== View Functions ==========
@@ -202,12 +821,26 @@ contract RedPacket is SepoliaConfig {
         return redPackets[redPacketId];
     }
     
+    /// @notice Get the revealed lucky king of a RANDOM packet
+    /// @return luckyKing Address with the largest share, zero until revealed
+    /// @return revealRequested Whether revealLuckyKing has been called for the packet
+    function getLuckyKing(uint256 redPacketId) external view returns (address luckyKing, bool revealRequested) {
+        LuckyKing storage king = luckyKings[redPacketId];
+        return (king.revealed, king.revealRequested);
+    }
+    
+    /// @notice Get the tokens red packets can currently be created with
+    function getSupportedTokens() external view returns (address[] memory) {
+        return supportedTokens;
+    }
+    
     /// @notice Get user's claim record
     function getClaimRecord(uint256 redPacketId, address user) external view returns (ClaimInfo memory) {
         return claimRecords[redPacketId][user];
     }
     
     /// @notice Get all claimers for a red packet
+    /// @dev Unbounded, prefer getRedPacketClaimersPage for packets with many claimers
     function getRedPacketClaimers(uint256 redPacketId) external view returns (address[] memory) {
         return redPacketClaimers[redPacketId];
     }
@@ -217,12 +850,92 @@ contract RedPacket is SepoliaConfig {
         RedPacketInfo memory packet = redPackets[redPacketId];
         return packet.exists && 
                packet.status == RedPacketStatus.ACTIVE && 
+               block.timestamp >= packet.startTime &&
                block.timestamp <= packet.expireTime &&
                packet.remainingCount > 0;
     }
     
+    /// @notice Message a claimer signs with the password-derived key to claim a password-protected packet
+    /// @dev Binds the signature to this contract, the chain, the packet and the claimer
+    function passwordClaimHash(uint256 redPacketId, address claimer) public view returns (bytes32) {
+        return keccak256(abi.encode(address(this), block.chainid, redPacketId, claimer));
+    }
+    
     /// @notice Get encrypted claim amount for a user
     function getUserClaimAmount(uint256 redPacketId, address user) external view returns (euint64) {
         return claimRecords[redPacketId][user].amount;
     }
+    
+    // ========== Paginated Views ==========
+    // Pages start at `offset` and hold at most `limit` entries, capped at MAX_PAGE_SIZE.
+    // An offset past the end returns an empty page.
+    
+    /// @notice Get a page of red packets, in id order
+    function getRedPackets(uint256 offset, uint256 limit) external view returns (RedPacketInfo[] memory page) {
+        (uint256 start, uint256 end) = _pageBounds(redPacketCount, offset, limit);
+        page = new RedPacketInfo[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            page[i - start] = redPackets[i];
+        }
+    }
+    
+    /// @notice Get a page of the red packets created by an address, in creation order
+    function getRedPacketsByCreator(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (RedPacketInfo[] memory page) {
+        uint256[] memory ids = _idsPage(createdRedPacketIds[creator], offset, limit);
+        page = new RedPacketInfo[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            page[i] = redPackets[ids[i]];
+        }
+    }
+    
+    /// @notice Get a page of the claimers of a red packet, in claim order
+    function getRedPacketClaimersPage(
+        uint256 redPacketId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory page) {
+        address[] storage claimers = redPacketClaimers[redPacketId];
+        (uint256 start, uint256 end) = _pageBounds(claimers.length, offset, limit);
+        page = new address[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            page[i - start] = claimers[i];
+        }
+    }
+    
+    /// @notice Get a page of the ids of the red packets created by an address
+    function getCreatedRedPacketIds(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory) {
+        return _idsPage(createdRedPacketIds[creator], offset, limit);
+    }
+    
+    /// @notice Get a page of the ids of the red packets claimed by an address
+    function getClaimedRedPacketIds(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory) {
+        return _idsPage(claimedRedPacketIds[user], offset, limit);
+    }
+    
+    /// @notice Number of claimers of a red packet
+    function getRedPacketClaimerCount(uint256 redPacketId) external view returns (uint256) {
+        return redPacketClaimers[redPacketId].length;
+    }
+    
+    /// @notice Number of red packets created by an address
+    function getCreatedRedPacketCount(address creator) external view returns (uint256) {
+        return createdRedPacketIds[creator].length;
+    }
+    
+    /// @notice Number of red packets claimed by an address
+    function getClaimedRedPacketCount(address user) external view returns (uint256) {
+        return claimedRedPacketIds[user].length;
+    }
 }
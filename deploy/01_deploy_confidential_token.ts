@@ -1,34 +1,49 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+import { getDeployConfig } from "../config/deploy";
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, getArtifact, save } = hre.deployments;
+  const config = getDeployConfig(hre.network.name);
+
+  if (config.tokenAddress) {
+    // Record the existing token so the other scripts and the tasks find it like a deployed one
+    const token = await hre.ethers.getContractAt("ConfidentialToken", config.tokenAddress);
+    const { abi } = await getArtifact("ConfidentialToken");
+    await save("ConfidentialToken", { address: config.tokenAddress, abi });
+
+    console.log(`\n💰 Reusing ConfidentialToken at: ${config.tokenAddress}`);
+    console.log(`   Name: ${await token.name()}`);
+    console.log(`   Symbol: ${await token.symbol()}`);
+    return;
+  }
 
   console.log("\n💰 Deploying ConfidentialToken contract...\n");
 
+  const owner = config.tokenOwner ?? deployer;
   const deployed = await deploy("ConfidentialToken", {
     from: deployer,
     args: [
-      deployer,                  // owner
+      owner,
       0,                         // No initial supply - use mint() after deployment
-      "Confidential Test Token", // name
-      "CTT",                     // symbol
-      "",                        // tokenURI
+      config.tokenName,
+      config.tokenSymbol,
+      config.tokenURI,
     ],
     log: true,
   });
 
   console.log(`✅ ConfidentialToken deployed at: ${deployed.address}`);
-  console.log(`   Owner: ${deployer}`);
-  console.log(`   Name: Confidential Test Token`);
-  console.log(`   Symbol: CTT`);
+  console.log(`   Owner: ${owner}`);
+  console.log(`   Name: ${config.tokenName}`);
+  console.log(`   Symbol: ${config.tokenSymbol}`);
   console.log(`   Initial Supply: 0 (use mint() to create tokens)`);
-  
+
   console.log("\n💡 This is an ERC-7984 confidential token with FHE encryption");
 };
 
 export default func;
 func.id = "deploy_confidential_token";
 func.tags = ["ConfidentialToken"];
-
@@ -1,10 +1,13 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 
+import { getDeployConfig } from "../config/deploy";
+
 const deployRedPacket: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
-  const { deployments, getNamedAccounts } = hre;
+  const { deployments, getNamedAccounts, ethers } = hre;
   const { deploy } = deployments;
   const { deployer } = await getNamedAccounts();
+  const config = getDeployConfig(hre.network.name);
 
   console.log("Deploying RedPacket contract...");
 
@@ -12,7 +15,7 @@ const deployRedPacket: DeployFunction = async function (hre: HardhatRuntimeEnvir
   const confidentialToken = await deployments.get("ConfidentialToken");
   console.log("Using ConfidentialToken at:", confidentialToken.address);
 
-  const redPacketDeployment = await deploy("RedPacketMVP", {
+  const redPacketDeployment = await deploy("RedPacket", {
     from: deployer,
     args: [confidentialToken.address],
     log: true,
@@ -20,9 +23,29 @@ const deployRedPacket: DeployFunction = async function (hre: HardhatRuntimeEnvir
   });
 
   console.log("RedPacket deployed to:", redPacketDeployment.address);
-  
+
+  const redPacket = await ethers.getContractAt(
+    "RedPacket",
+    redPacketDeployment.address,
+    await ethers.getSigner(deployer),
+  );
+
+  for (const token of config.extraTokens) {
+    if (!(await redPacket.isTokenSupported(token))) {
+      await (await redPacket.addToken(token)).wait();
+      console.log("Added supported token:", token);
+    }
+  }
+
+  // Ownable2Step: the new owner still has to call acceptOwnership()
+  const owner = await redPacket.owner();
+  if (config.redPacketOwner && config.redPacketOwner !== owner && owner === deployer) {
+    await (await redPacket.transferOwnership(config.redPacketOwner)).wait();
+    console.log(`Ownership transfer to ${config.redPacketOwner} started, it must call acceptOwnership()`);
+  }
+
   // Verify the deployment
-  if (hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
+  if (config.verify && redPacketDeployment.newlyDeployed) {
     try {
       await hre.run("verify:verify", {
         address: redPacketDeployment.address,
@@ -36,5 +59,6 @@ const deployRedPacket: DeployFunction = async function (hre: HardhatRuntimeEnvir
 };
 
 export default deployRedPacket;
-deployRedPacket.tags = ["RedPacketMVP"];
+deployRedPacket.id = "deploy_redpacket";
+deployRedPacket.tags = ["RedPacket"];
 deployRedPacket.dependencies = ["ConfidentialToken"];
@@ -0,0 +1,44 @@
+import * as fs from "fs";
+import * as path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+import type { DeploymentManifest } from "../src";
+
+const exportAddresses: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, ethers, network } = hre;
+
+  // Nothing outlives an in-process hardhat network, so there is nothing to hand to a frontend
+  if (network.name === "hardhat") {
+    return;
+  }
+
+  const redPacketDeployment = await deployments.get("RedPacket");
+  const tokenDeployment = await deployments.get("ConfidentialToken");
+  const redPacket = await ethers.getContractAt("RedPacket", redPacketDeployment.address);
+
+  const manifest: DeploymentManifest = {
+    network: network.name,
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    contracts: {
+      RedPacket: {
+        address: redPacketDeployment.address,
+        blockNumber: redPacketDeployment.receipt?.blockNumber,
+      },
+      ConfidentialToken: {
+        address: tokenDeployment.address,
+        blockNumber: tokenDeployment.receipt?.blockNumber,
+      },
+    },
+    supportedTokens: [...(await redPacket.getSupportedTokens())],
+  };
+
+  const file = path.join(hre.config.paths.deployments, `addresses.${network.name}.json`);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  console.log(`📝 Addresses written to ${path.relative(hre.config.paths.root, file)}`);
+};
+
+export default exportAddresses;
+exportAddresses.tags = ["Addresses"];
+exportAddresses.dependencies = ["RedPacket"];
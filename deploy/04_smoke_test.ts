@@ -0,0 +1,56 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+import { getDeployConfig } from "../config/deploy";
+import { RedPacketClient, RedPacketType } from "../src";
+
+const SMOKE_TEST_AMOUNT = 100;
+
+/**
+ * Post-deploy smoke check: create a one-share red packet as the deployer and claim it with the second signer.
+ * Runs on the networks whose deploy config enables `smokeTest`; fails the deployment if the cycle does not complete.
+ */
+const smokeTest: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, ethers, fhevm } = hre;
+  const [deployer, claimer] = await ethers.getSigners();
+
+  const redPacket = await ethers.getContractAt("RedPacket", (await deployments.get("RedPacket")).address, deployer);
+  const token = await ethers.getContractAt(
+    "ConfidentialToken",
+    (await deployments.get("ConfidentialToken")).address,
+    deployer,
+  );
+
+  if ((await token.owner()) !== deployer.address) {
+    console.log("⏭️  Smoke test skipped: the deployer cannot mint the ConfidentialToken");
+    return;
+  }
+
+  console.log("\n🧪 Smoke test: create and claim a red packet...");
+  await fhevm.initializeCLIApi();
+  await (await token.mint(deployer.address, SMOKE_TEST_AMOUNT)).wait();
+
+  const client = new RedPacketClient(redPacket, token, deployer, fhevm);
+  const block = await ethers.provider.getBlock("latest");
+  const { redPacketId } = await client.transferAndCreatePacket({
+    packetType: RedPacketType.NORMAL,
+    amount: SMOKE_TEST_AMOUNT,
+    count: 1,
+    expireTime: block!.timestamp + 3600,
+    message: "Smoke test",
+  });
+
+  const claimerClient = client.withSigner(claimer);
+  await claimerClient.claim(redPacketId);
+  const claimed = await claimerClient.decryptClaim(redPacketId);
+  if (claimed !== BigInt(SMOKE_TEST_AMOUNT)) {
+    throw new Error(`Smoke test failed: red packet #${redPacketId} paid out ${claimed}, expected ${SMOKE_TEST_AMOUNT}`);
+  }
+
+  console.log(`✅ Smoke test passed: red packet #${redPacketId} created and claimed`);
+};
+
+export default smokeTest;
+smokeTest.tags = ["SmokeTest"];
+smokeTest.dependencies = ["RedPacket"];
+smokeTest.skip = async (hre: HardhatRuntimeEnvironment) => !getDeployConfig(hre.network.name).smokeTest;
@@ -71,6 +71,8 @@ const config: HardhatUserConfig = {
         runs: 800,
       },
       evmVersion: "cancun",
+      // The public redPackets getter returns every RedPacketInfo field, too deep a stack without the IR pipeline
+      viaIR: true,
     },
   },
   typechain: {
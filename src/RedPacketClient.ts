@@ -0,0 +1,815 @@
+import type { HardhatFhevmRuntimeEnvironment } from "@fhevm/hardhat-plugin";
+import { FhevmType } from "@fhevm/mock-utils";
+import type { ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import { AbiCoder, ZeroAddress, ZeroHash } from "ethers";
+
+// Type-only: hardhat loads this module from the tasks before typechain has generated ../types
+import type { ConfidentialToken, RedPacket } from "../types";
+import type { TypedContractEvent } from "../types/common";
+import { DecryptionPermissionError, RedPacketClientError, decodeRedPacketError } from "./errors";
+import { getPasswordSigner, newPasswordSalt, signPasswordClaim } from "./password";
+import { ClaimVoucher, signClaimVoucher } from "./voucher";
+
+/**
+ * FHEVM capabilities the client relies on: encrypting inputs and user-decrypting handles.
+ * The hardhat `fhevm` runtime environment satisfies it, both in mock mode and on Sepolia.
+ */
+export type FhevmApi = Pick<HardhatFhevmRuntimeEnvironment, "createEncryptedInput" | "userDecryptEuint">;
+
+/** ABI type of RedPacket.RedPacketParams, the `data` of a confidentialTransferAndCall to the RedPacket contract */
+const RED_PACKET_PARAMS_TYPE =
+  "tuple(uint8 packetType, uint256 totalCount, uint256 startTime, uint256 expireTime, string message, " +
+  "tuple(bytes32 merkleRoot, address passwordSigner, bytes32 passwordSalt, bool voucherRequired) restrictions)";
+
+/** Decoded arguments of a typechain contract event, by name */
+type EventArgs<TEvent> =
+  TEvent extends TypedContractEvent<infer _InputTuple, infer _OutputTuple, infer OutputObject> ? OutputObject : never;
+
+/** Mirrors RedPacket.RedPacketType */
+export enum RedPacketType {
+  NORMAL = 0,
+  RANDOM = 1,
+}
+
+/** Mirrors RedPacket.RedPacketStatus */
+export enum RedPacketStatus {
+  ACTIVE = 0,
+  EXPIRED = 1,
+  EMPTY = 2,
+  CANCELLED = 3,
+}
+
+export interface RedPacketView {
+  id: bigint;
+  creator: string;
+  /** ERC-7984 token the packet holds and pays out */
+  token: string;
+  packetType: RedPacketType;
+  status: RedPacketStatus;
+  encryptedTotalAmount: string;
+  encryptedRemainingAmount: string;
+  /** Amount paid out so far, ZeroHash until the first claim */
+  encryptedClaimedAmount: string;
+  totalCount: bigint;
+  remainingCount: bigint;
+  /** When claims open, the creation time unless the packet was scheduled */
+  startTime: bigint;
+  expireTime: bigint;
+  createdAt: bigint;
+  message: string;
+  /** Allowlist Merkle root, ZeroHash when anyone can claim */
+  merkleRoot: string;
+  /** Address of the password-derived key, ZeroAddress when no password is required */
+  passwordSigner: string;
+  /** Salt the password key is derived with, ZeroHash when no password is required */
+  passwordSalt: string;
+  /** Whether claimers need a creator-signed voucher */
+  voucherRequired: boolean;
+  /** Whether the packet can currently be claimed (status, start, expiry and remaining count) */
+  isActive: boolean;
+  /** Whether the packet is scheduled and its start time has not come yet */
+  isScheduled: boolean;
+}
+
+export interface PacketQuery {
+  /** Only packets created by this address */
+  creator?: string;
+  /** Only packets in this status, as returned by getEffectiveStatus */
+  status?: RedPacketStatus;
+  /** Only packets holding this token */
+  token?: string;
+  /** Number of matching packets to skip */
+  offset?: number;
+  /** Maximum number of packets to return (default 20) */
+  limit?: number;
+}
+
+export interface ClaimRecordView {
+  user: string;
+  encryptedAmount: string;
+  timestamp: bigint;
+  /** Whether the claimer has asked to disclose the amount (see discloseClaim) */
+  disclosureRequested: boolean;
+  /** Clear amount, only once the claimer has disclosed it and the decryption oracle has answered */
+  disclosedAmount?: bigint;
+}
+
+export interface CreatePacketParams {
+  packetType: RedPacketType;
+  /** Total amount in token base units, encrypted before it is sent */
+  amount: bigint | number;
+  count: number;
+  /** Unix timestamp in seconds when claims open; omit to open them right away */
+  startTime?: number;
+  /** Unix timestamp in seconds */
+  expireTime: number;
+  message: string;
+  /** Allowlist Merkle root (see buildAllowlist); omit for a packet anyone can claim */
+  merkleRoot?: string;
+  /** Password claimers must know; omit for a packet without password */
+  password?: string;
+  /** Only let claimers holding a voucher signed by the creator claim (see signVoucher) */
+  voucherRequired?: boolean;
+}
+
+export interface AirdropParams {
+  packetType: RedPacketType;
+  /** Total amount in token base units, encrypted before it is sent */
+  amount: bigint | number;
+  /** Distinct addresses, at most MAX_AIRDROP_CHUNK_SIZE[packetType]; see splitAirdrop for longer lists */
+  recipients: string[];
+  message: string;
+}
+
+export interface ClaimOptions {
+  /** Merkle proof of the signer, for allowlist-restricted packets (see getAllowlistProof) */
+  proof?: string[];
+  /** Password of a password-protected packet */
+  password?: string;
+  /** Creator-signed voucher for the signer, for voucher-gated packets */
+  voucher?: ClaimVoucher;
+}
+
+export interface TransactionResult {
+  txHash: string;
+}
+
+export interface CreatePacketResult extends TransactionResult {
+  redPacketId: bigint;
+}
+
+/** Outcome of one packet of {@link RedPacketClient.createPackets}: created, or the error it failed with */
+export type CreatePacketsResult = CreatePacketResult | { error: unknown; txHash?: string };
+
+export interface AirdropResult extends CreatePacketResult {
+  recipients: number;
+}
+
+export interface FinalizeExpiredResult extends TransactionResult {
+  /** Packets this transaction expired and refunded; ids that were no longer candidates are left out */
+  redPacketIds: bigint[];
+}
+
+export interface LuckyKingView {
+  /** Claimer with the largest share, undefined until the decryption oracle has answered */
+  luckyKing?: string;
+  /** Whether someone has asked for the reveal (see revealLuckyKing) */
+  revealRequested: boolean;
+}
+
+/** Decrypted running totals of a packet, readable by its creator only */
+export interface CreatorStats {
+  totalAmount: bigint;
+  /** Paid out to claimers so far */
+  claimedAmount: bigint;
+  /** Still held for claimers, zero once the packet has been refunded or cancelled */
+  remainingAmount: bigint;
+}
+
+export interface ClaimResult extends TransactionResult {
+  redPacketId: bigint;
+  remainingCount: bigint;
+}
+
+export interface ApproveOperatorResult extends TransactionResult {
+  operator: string;
+  until: number;
+}
+
+// Default operator approval window used by the tasks and tests (~3 years)
+const DEFAULT_OPERATOR_DURATION = 100_000_000;
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Entries fetched per call when walking the paginated views, RedPacket.MAX_PAGE_SIZE
+const CHAIN_PAGE_SIZE = 100;
+
+type RedPacketInfo = Awaited<ReturnType<RedPacket["getRedPacket"]>>;
+
+type EncryptedInput = Awaited<ReturnType<ReturnType<FhevmApi["createEncryptedInput"]>["encrypt"]>>;
+
+/**
+ * Status of a packet as users see it: an ACTIVE packet past its expire time is EXPIRED,
+ * even though nobody has refunded it on-chain yet. A scheduled packet that has not started is ACTIVE.
+ */
+export function getEffectiveStatus(
+  packet: Pick<RedPacketView, "status" | "isActive" | "isScheduled">,
+): RedPacketStatus {
+  return packet.status === RedPacketStatus.ACTIVE && !packet.isActive && !packet.isScheduled
+    ? RedPacketStatus.EXPIRED
+    : packet.status;
+}
+
+/**
+ * Name of the effective status, e.g. "EXPIRED", as the tasks print it in JSON output.
+ * A scheduled packet is "ACTIVE": whether it has started is told by `isScheduled`.
+ */
+export function getStatusName(
+  packet: Pick<RedPacketView, "status" | "isActive" | "isScheduled">,
+): keyof typeof RedPacketStatus {
+  return RedPacketStatus[getEffectiveStatus(packet)] as keyof typeof RedPacketStatus;
+}
+
+async function toClaimRestrictions(params: CreatePacketParams): Promise<RedPacket.ClaimRestrictionsStruct> {
+  const passwordSalt = params.password === undefined ? ZeroHash : newPasswordSalt();
+  return {
+    merkleRoot: params.merkleRoot ?? ZeroHash,
+    passwordSigner:
+      params.password === undefined ? ZeroAddress : await getPasswordSigner(params.password, passwordSalt),
+    passwordSalt,
+    voucherRequired: params.voucherRequired ?? false,
+  };
+}
+
+/**
+ * Encode the packet parameters as the `data` of a confidentialTransferAndCall to the RedPacket contract.
+ * The amount is not part of it: the packet is funded with the transferred tokens.
+ */
+export async function encodeCreatePacketData(params: Omit<CreatePacketParams, "amount">): Promise<string> {
+  const restrictions = await toClaimRestrictions({ ...params, amount: 0 });
+  return AbiCoder.defaultAbiCoder().encode(
+    [RED_PACKET_PARAMS_TYPE],
+    [[params.packetType, params.count, params.startTime ?? 0, params.expireTime, params.message, restrictions]],
+  );
+}
+
+// Same rule as RedPacket.isRedPacketActive, evaluated at a given block timestamp
+function isActiveAt(info: RedPacketInfo, timestamp: number): boolean {
+  return (
+    info.exists &&
+    Number(info.status) === RedPacketStatus.ACTIVE &&
+    timestamp >= info.startTime &&
+    timestamp <= info.expireTime &&
+    info.remainingCount > 0n
+  );
+}
+
+function toView(info: RedPacketInfo, isActive: boolean, timestamp: number): RedPacketView {
+  return {
+    id: info.id,
+    creator: info.creator,
+    token: info.token,
+    packetType: Number(info.packetType) as RedPacketType,
+    status: Number(info.status) as RedPacketStatus,
+    encryptedTotalAmount: info.encryptedTotalAmount,
+    encryptedRemainingAmount: info.encryptedRemainingAmount,
+    encryptedClaimedAmount: info.encryptedClaimedAmount,
+    totalCount: info.totalCount,
+    remainingCount: info.remainingCount,
+    startTime: info.startTime,
+    expireTime: info.expireTime,
+    createdAt: info.createdAt,
+    message: info.message,
+    merkleRoot: info.merkleRoot,
+    passwordSigner: info.passwordSigner,
+    passwordSalt: info.passwordSalt,
+    voucherRequired: info.voucherRequired,
+    isActive,
+    isScheduled: Number(info.status) === RedPacketStatus.ACTIVE && timestamp < info.startTime,
+  };
+}
+
+/**
+ * Typed client for the RedPacket contract and one of its supported tokens, which new packets are funded with.
+ * Both contracts must be connected to `signer`, e.g. through `ethers.getContractAt`.
+ *
+ * Wraps the typechain bindings so callers do not have to encrypt inputs, parse
+ * receipts or decode custom errors by hand. Reverts carrying a RedPacket custom
+ * error are rethrown as {@link RedPacketContractError}.
+ */
+export class RedPacketClient {
+  constructor(
+    readonly redPacket: RedPacket,
+    readonly token: ConfidentialToken,
+    readonly signer: Signer,
+    private readonly fhevm: FhevmApi,
+  ) {}
+
+  /**
+   * Return a client for the same contracts acting as another signer.
+   */
+  withSigner(signer: Signer): RedPacketClient {
+    return new RedPacketClient(this.redPacket.connect(signer), this.token.connect(signer), signer, this.fhevm);
+  }
+
+  /**
+   * Return a client for the same RedPacket contract and signer that funds packets with another token.
+   */
+  withToken(token: ConfidentialToken): RedPacketClient {
+    return new RedPacketClient(this.redPacket, token.connect(this.signer), this.signer, this.fhevm);
+  }
+
+  // ========== Transactions ==========
+
+  /**
+   * Allow the RedPacket contract to pull tokens from the signer when creating packets.
+   */
+  async approveOperator(duration: number = DEFAULT_OPERATOR_DURATION): Promise<ApproveOperatorResult> {
+    const operator = await this.redPacket.getAddress();
+    const until = (await this.latestTimestamp()) + duration;
+
+    const receipt = await this.send(() => this.token.setOperator(operator, until));
+    return { txHash: receipt.hash, operator, until };
+  }
+
+  /**
+   * Encrypt the amount and create a red packet funded by the signer.
+   */
+  async createPacket(params: CreatePacketParams): Promise<CreatePacketResult> {
+    const [encryptedInput] = await this.encryptAmounts([params.amount]);
+
+    const receipt = await this.send(() => this.sendCreatePacket(params, encryptedInput));
+    const { redPacketId } = this.findEventArgs(receipt, this.redPacket.getEvent("RedPacketCreated"));
+    return { txHash: receipt.hash, redPacketId };
+  }
+
+  /**
+   * Encrypt the amounts and create several red packets funded by the signer.
+   * The transactions are sent back to back with consecutive nonces, then awaited; a packet that fails
+   * does not stop the others. Results are in the order of `paramsList`.
+   */
+  async createPackets(paramsList: CreatePacketParams[]): Promise<CreatePacketsResult[]> {
+    const encryptedInputs = await this.encryptAmounts(paramsList.map((params) => params.amount));
+
+    let nonce = await this.signer.getNonce("pending");
+    const sent: (ContractTransactionResponse | { error: unknown })[] = [];
+    for (const [index, params] of paramsList.entries()) {
+      try {
+        sent.push(await this.sendCreatePacket(params, encryptedInputs[index], nonce));
+        nonce++;
+      } catch (error) {
+        sent.push({ error: decodeRedPacketError(error, this.redPacket.interface) ?? error });
+        // Whether a rejected transaction used up its nonce depends on the node, so ask it
+        nonce = await this.signer.getNonce("pending");
+      }
+    }
+
+    const results: CreatePacketsResult[] = [];
+    for (const tx of sent) {
+      if ("error" in tx) {
+        results.push(tx);
+        continue;
+      }
+      try {
+        const receipt = await this.send(async () => tx);
+        const { redPacketId } = this.findEventArgs(receipt, this.redPacket.getEvent("RedPacketCreated"));
+        results.push({ txHash: receipt.hash, redPacketId });
+      } catch (error) {
+        results.push({ error, txHash: tx.hash });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Create a red packet in a single transaction by sending the amount with confidentialTransferAndCall.
+   * Needs no operator approval; if the packet is rejected, the whole transfer reverts.
+   */
+  async transferAndCreatePacket(params: CreatePacketParams): Promise<CreatePacketResult> {
+    const [tokenAddress, redPacketAddress, signerAddress] = await Promise.all([
+      this.token.getAddress(),
+      this.redPacket.getAddress(),
+      this.signer.getAddress(),
+    ]);
+
+    // The signer calls the token directly this time, so the input is bound to the signer
+    const encryptedInput = await this.fhevm
+      .createEncryptedInput(tokenAddress, signerAddress)
+      .add64(params.amount)
+      .encrypt();
+    const data = await encodeCreatePacketData(params);
+
+    const receipt = await this.send(() =>
+      this.token["confidentialTransferAndCall(address,bytes32,bytes,bytes)"](
+        redPacketAddress,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        data,
+      ),
+    );
+
+    const { redPacketId } = this.findEventArgs(receipt, this.redPacket.getEvent("RedPacketCreated"));
+    return { txHash: receipt.hash, redPacketId };
+  }
+
+  /**
+   * Encrypt the amount and pay it to the recipients right away, split like a red packet of `packetType`.
+   * The airdrop is recorded as a packet that every recipient has already claimed.
+   */
+  async airdrop(params: AirdropParams): Promise<AirdropResult> {
+    const [encryptedInput] = await this.encryptAmounts([params.amount]);
+
+    const receipt = await this.send(async () =>
+      this.redPacket.airdrop(
+        await this.token.getAddress(),
+        params.packetType,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        params.recipients,
+        params.message,
+      ),
+    );
+
+    const { redPacketId } = this.findEventArgs(receipt, this.redPacket.getEvent("RedPacketCreated"));
+    return { txHash: receipt.hash, redPacketId, recipients: params.recipients.length };
+  }
+
+  /**
+   * Claim a share of a red packet for the signer.
+   * Restricted packets need the signer's allowlist proof, the packet password and/or a voucher.
+   */
+  async claim(redPacketId: bigint | number, options: ClaimOptions = {}): Promise<ClaimResult> {
+    const { proof, password, voucher } = options;
+
+    if (proof === undefined && password === undefined && voucher === undefined) {
+      const receipt = await this.send(() => this.redPacket.claimRedPacket(redPacketId));
+      return this.claimResult(receipt);
+    }
+
+    // Only a signature bound to the signer goes on-chain, never the password itself
+    const passwordSignature =
+      password === undefined
+        ? "0x"
+        : await signPasswordClaim(this.redPacket, password, redPacketId, await this.signer.getAddress());
+
+    const receipt = await this.send(() =>
+      this.redPacket.claimRedPacketWithAuthorization(redPacketId, {
+        proof: proof ?? [],
+        passwordSignature,
+        voucherDeadline: voucher?.deadline ?? 0,
+        voucherSignature: voucher?.signature ?? "0x",
+      }),
+    );
+    return this.claimResult(receipt);
+  }
+
+  /**
+   * Sign a voucher letting `claimer` claim a voucher-gated packet until `deadline` (creator only).
+   * Off-chain: no transaction is sent.
+   */
+  async signVoucher(redPacketId: bigint | number, claimer: string, deadline: bigint | number): Promise<ClaimVoucher> {
+    return signClaimVoucher(this.redPacket, this.signer, redPacketId, claimer, deadline);
+  }
+
+  /**
+   * Refund the unclaimed balance of an expired packet to its creator (creator only).
+   */
+  async refund(redPacketId: bigint | number): Promise<TransactionResult> {
+    const receipt = await this.send(() => this.redPacket.refundRedPacket(redPacketId));
+    return { txHash: receipt.hash };
+  }
+
+  /**
+   * Cancel an active packet and return the unclaimed balance to its creator (creator only).
+   */
+  async cancel(redPacketId: bigint | number): Promise<TransactionResult> {
+    const receipt = await this.send(() => this.redPacket.cancelRedPacket(redPacketId));
+    return { txHash: receipt.hash };
+  }
+
+  /**
+   * Expire packets past their expire time and refund them to their creators, for anyone to call.
+   * At most RedPacket.MAX_FINALIZE_BATCH ids per call; packets that are not expired-but-active are skipped.
+   */
+  async finalizeExpired(redPacketIds: (bigint | number)[]): Promise<FinalizeExpiredResult> {
+    const receipt = await this.send(() => this.redPacket.finalizeExpiredRedPackets(redPacketIds));
+    const expired = this.findAllEventArgs(receipt, this.redPacket.getEvent("RedPacketExpired")).map(
+      ({ redPacketId }) => redPacketId,
+    );
+    return { txHash: receipt.hash, redPacketIds: expired };
+  }
+
+  /**
+   * Ask the decryption oracle to reveal who got the largest share of a fully claimed RANDOM packet.
+   * The answer arrives in a later transaction, see getLuckyKing.
+   */
+  async revealLuckyKing(redPacketId: bigint | number): Promise<TransactionResult> {
+    const receipt = await this.send(() => this.redPacket.revealLuckyKing(redPacketId));
+    return { txHash: receipt.hash };
+  }
+
+  /**
+   * Ask the decryption oracle to make the amount the signer received from a packet public.
+   * Only this claim is disclosed; the clear amount shows up in getClaim once the oracle has answered.
+   */
+  async discloseClaim(redPacketId: bigint | number): Promise<TransactionResult> {
+    const receipt = await this.send(() => this.redPacket.discloseClaimAmount(redPacketId));
+    return { txHash: receipt.hash };
+  }
+
+  /**
+   * Allow red packets to be created with another ERC-7984 token (RedPacket owner only).
+   */
+  async addToken(token: string): Promise<TransactionResult> {
+    const receipt = await this.send(() => this.redPacket.addToken(token));
+    return { txHash: receipt.hash };
+  }
+
+  /**
+   * Stop red packets from being created with a token (RedPacket owner only).
+   * Existing packets keep paying out and refunding in it.
+   */
+  async removeToken(token: string): Promise<TransactionResult> {
+    const receipt = await this.send(() => this.redPacket.removeToken(token));
+    return { txHash: receipt.hash };
+  }
+
+  // ========== Views ==========
+
+  /**
+   * Get a red packet, or undefined if it does not exist.
+   */
+  async getPacket(redPacketId: bigint | number): Promise<RedPacketView | undefined> {
+    const [info, isActive, now] = await Promise.all([
+      this.redPacket.getRedPacket(redPacketId),
+      this.redPacket.isRedPacketActive(redPacketId),
+      this.latestTimestamp(),
+    ]);
+
+    if (!info.exists) {
+      return undefined;
+    }
+
+    return toView(info, isActive, now);
+  }
+
+  /**
+   * List every existing red packet, in id order.
+   */
+  async listPackets(): Promise<RedPacketView[]> {
+    return this.queryPackets({ limit: Number.POSITIVE_INFINITY });
+  }
+
+  /**
+   * Find red packets by creator, status and/or token, one page at a time, through the paginated views.
+   * Without a status or token filter the page is read directly; with one, packets are scanned until the page is full.
+   */
+  async queryPackets(query: PacketQuery = {}): Promise<RedPacketView[]> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const now = await this.latestTimestamp();
+    const token = query.token?.toLowerCase();
+    const matches = (packet: RedPacketView) =>
+      (query.status === undefined || getEffectiveStatus(packet) === query.status) &&
+      (token === undefined || packet.token.toLowerCase() === token);
+
+    // Matching packets still to skip, and where to start reading: without a filter every packet matches
+    const filtered = query.status !== undefined || token !== undefined;
+    let toSkip = filtered ? (query.offset ?? 0) : 0;
+    let cursor = filtered ? 0 : (query.offset ?? 0);
+
+    const packets: RedPacketView[] = [];
+    while (packets.length < limit) {
+      const page =
+        query.creator === undefined
+          ? await this.redPacket.getRedPackets(cursor, CHAIN_PAGE_SIZE)
+          : await this.redPacket.getRedPacketsByCreator(query.creator, cursor, CHAIN_PAGE_SIZE);
+      if (page.length === 0) {
+        break;
+      }
+      cursor += page.length;
+
+      for (const info of page) {
+        const packet = toView(info, isActiveAt(info, now), now);
+        if (!matches(packet)) {
+          continue;
+        }
+        if (toSkip > 0) {
+          toSkip--;
+          continue;
+        }
+        packets.push(packet);
+        if (packets.length === limit) {
+          break;
+        }
+      }
+    }
+    return packets;
+  }
+
+  /**
+   * Ids of the packets past their expire time that are still ACTIVE on-chain, i.e. nobody has refunded
+   * or finalized them yet. Scans every packet, see RedPacketIndexer for a cheaper source.
+   */
+  async findExpiredPacketIds(): Promise<bigint[]> {
+    const expired = await this.queryPackets({ status: RedPacketStatus.EXPIRED, limit: Number.POSITIVE_INFINITY });
+    return expired.filter((packet) => packet.status === RedPacketStatus.ACTIVE).map((packet) => packet.id);
+  }
+
+  /**
+   * Get the lucky king of a RANDOM packet and whether its reveal has been requested.
+   */
+  async getLuckyKing(redPacketId: bigint | number): Promise<LuckyKingView> {
+    const [luckyKing, revealRequested] = await this.redPacket.getLuckyKing(redPacketId);
+    return { luckyKing: luckyKing === ZeroAddress ? undefined : luckyKing, revealRequested };
+  }
+
+  /**
+   * Get the tokens red packets can currently be created with.
+   */
+  async getSupportedTokens(): Promise<string[]> {
+    return [...(await this.redPacket.getSupportedTokens())];
+  }
+
+  /**
+   * Get a page of the claimers of a red packet, in claim order.
+   */
+  async getClaimers(
+    redPacketId: bigint | number,
+    offset: number = 0,
+    limit: number = DEFAULT_PAGE_SIZE,
+  ): Promise<string[]> {
+    return [...(await this.redPacket.getRedPacketClaimersPage(redPacketId, offset, limit))];
+  }
+
+  /**
+   * Get a page of the ids of the packets created by a user (defaults to the signer).
+   */
+  async getCreatedPacketIds(
+    creator?: string,
+    offset: number = 0,
+    limit: number = DEFAULT_PAGE_SIZE,
+  ): Promise<bigint[]> {
+    const address = creator ?? (await this.signer.getAddress());
+    return [...(await this.redPacket.getCreatedRedPacketIds(address, offset, limit))];
+  }
+
+  /**
+   * Get a page of the ids of the packets claimed by a user (defaults to the signer).
+   */
+  async getClaimedPacketIds(user?: string, offset: number = 0, limit: number = DEFAULT_PAGE_SIZE): Promise<bigint[]> {
+    const address = user ?? (await this.signer.getAddress());
+    return [...(await this.redPacket.getClaimedRedPacketIds(address, offset, limit))];
+  }
+
+  /**
+   * Get a user's claim record (defaults to the signer), or undefined if they have not claimed.
+   */
+  async getClaim(redPacketId: bigint | number, user?: string): Promise<ClaimRecordView | undefined> {
+    const record = await this.redPacket.getClaimRecord(redPacketId, user ?? (await this.signer.getAddress()));
+
+    if (!record.exists) {
+      return undefined;
+    }
+
+    return {
+      user: record.user,
+      encryptedAmount: record.amount,
+      timestamp: record.timestamp,
+      disclosureRequested: record.disclosureRequested,
+      disclosedAmount: record.disclosed ? record.disclosedAmount : undefined,
+    };
+  }
+
+  // ========== Decryption ==========
+
+  /**
+   * Decrypt the amount the signer received from a red packet, or undefined if they have not claimed.
+   */
+  async decryptClaim(redPacketId: bigint | number): Promise<bigint | undefined> {
+    const claim = await this.getClaim(redPacketId);
+    if (claim === undefined) {
+      return undefined;
+    }
+
+    return this.decrypt(claim.encryptedAmount, await this.redPacket.getAddress());
+  }
+
+  /**
+   * Decrypt the total, claimed and remaining amounts of a packet the signer created.
+   * Throws {@link DecryptionPermissionError} when the signer is not the creator.
+   */
+  async decryptCreatorStats(redPacketId: bigint | number): Promise<CreatorStats> {
+    const packet = await this.getPacket(redPacketId);
+    if (!packet) {
+      throw new RedPacketClientError(`Red packet ${redPacketId} not found`);
+    }
+
+    const redPacketAddress = await this.redPacket.getAddress();
+    return {
+      totalAmount: await this.decrypt(packet.encryptedTotalAmount, redPacketAddress),
+      claimedAmount: await this.decrypt(packet.encryptedClaimedAmount, redPacketAddress),
+      remainingAmount: await this.decrypt(packet.encryptedRemainingAmount, redPacketAddress),
+    };
+  }
+
+  /**
+   * Decrypt the signer's confidential token balance.
+   */
+  async decryptBalance(): Promise<bigint> {
+    const balance = await this.token.confidentialBalanceOf(await this.signer.getAddress());
+    return this.decrypt(balance, await this.token.getAddress());
+  }
+
+  /**
+   * User-decrypt an euint64 handle owned by `contractAddress` as the signer.
+   * Throws {@link DecryptionPermissionError} when the signer lacks ACL permission.
+   */
+  async decrypt(handle: string, contractAddress: string): Promise<bigint> {
+    // An uninitialized handle has never been assigned, so there is nothing to decrypt
+    if (handle === ZeroHash) {
+      return 0n;
+    }
+
+    try {
+      return await this.fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, this.signer);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (/not (authorized|allowed)/i.test(reason)) {
+        throw new DecryptionPermissionError(handle, contractAddress, await this.signer.getAddress(), {
+          cause: error,
+        });
+      }
+      throw error;
+    }
+  }
+
+  // ========== Internal ==========
+
+  private async latestTimestamp(): Promise<number> {
+    const block = await this.signer.provider?.getBlock("latest");
+    if (!block) {
+      throw new RedPacketClientError("Signer is not connected to a provider");
+    }
+    return block.timestamp;
+  }
+
+  // The token decrypts the inputs on behalf of the RedPacket contract, which calls confidentialTransferFrom
+  private async encryptAmounts(amounts: (bigint | number)[]): Promise<EncryptedInput[]> {
+    const [tokenAddress, redPacketAddress] = await Promise.all([this.token.getAddress(), this.redPacket.getAddress()]);
+
+    const encryptedInputs: EncryptedInput[] = [];
+    for (const amount of amounts) {
+      encryptedInputs.push(
+        await this.fhevm.createEncryptedInput(tokenAddress, redPacketAddress).add64(amount).encrypt(),
+      );
+    }
+    return encryptedInputs;
+  }
+
+  private async sendCreatePacket(
+    params: CreatePacketParams,
+    encryptedInput: EncryptedInput,
+    nonce?: number,
+  ): Promise<ContractTransactionResponse> {
+    return this.redPacket.createRedPacket(
+      await this.token.getAddress(),
+      params.packetType,
+      encryptedInput.handles[0],
+      encryptedInput.inputProof,
+      params.count,
+      params.startTime ?? 0,
+      params.expireTime,
+      params.message,
+      await toClaimRestrictions(params),
+      { nonce },
+    );
+  }
+
+  // Send a transaction, wait for it and rethrow RedPacket reverts as typed errors
+  private async send(sendTransaction: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    try {
+      const tx = await sendTransaction();
+      const receipt = await tx.wait();
+      if (receipt === null) {
+        throw new RedPacketClientError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    } catch (error) {
+      throw decodeRedPacketError(error, this.redPacket.interface) ?? error;
+    }
+  }
+
+  private claimResult(receipt: ContractTransactionReceipt): ClaimResult {
+    const { redPacketId, remainingCount } = this.findEventArgs(receipt, this.redPacket.getEvent("RedPacketClaimed"));
+    return { txHash: receipt.hash, redPacketId, remainingCount };
+  }
+
+  private findEventArgs<TEvent extends TypedContractEvent>(
+    receipt: ContractTransactionReceipt,
+    event: TEvent,
+  ): EventArgs<TEvent> {
+    const [args] = this.findAllEventArgs(receipt, event);
+    if (args === undefined) {
+      throw new RedPacketClientError(`${event.name} event not found in transaction ${receipt.hash}`);
+    }
+    return args;
+  }
+
+  private findAllEventArgs<TEvent extends TypedContractEvent>(
+    receipt: ContractTransactionReceipt,
+    event: TEvent,
+  ): EventArgs<TEvent>[] {
+    const redPacketAddress = String(this.redPacket.target).toLowerCase();
+    const found: EventArgs<TEvent>[] = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== redPacketAddress) {
+        continue;
+      }
+      const parsed = this.redPacket.interface.parseLog(log);
+      if (parsed?.topic === event.fragment.topicHash) {
+        found.push(parsed.args.toObject() as EventArgs<TEvent>);
+      }
+    }
+    return found;
+  }
+}
@@ -0,0 +1,71 @@
+import { getAddress } from "ethers";
+
+import { RedPacketClientError } from "./errors";
+import { RedPacketType } from "./RedPacketClient";
+
+/**
+ * Most recipients one RedPacket.airdrop call accepts, mirrors RedPacket.MAX_EQUAL_AIRDROP_RECIPIENTS and
+ * MAX_RANDOM_AIRDROP_RECIPIENTS. Both come from the FHEVM limits on homomorphic work per transaction.
+ */
+export const MAX_AIRDROP_CHUNK_SIZE: Record<RedPacketType, number> = {
+  [RedPacketType.NORMAL]: 10,
+  [RedPacketType.RANDOM]: 2,
+};
+
+/** One RedPacket.airdrop call of a longer airdrop */
+export interface AirdropChunk {
+  amount: bigint;
+  recipients: string[];
+}
+
+/**
+ * Split an equal airdrop to any number of recipients into chunks of at most `chunkSize` recipients.
+ * The amount is shared in proportion to the chunk sizes and the last chunk gets the rounding
+ * remainder, so everyone is still paid the same, give or take rounding.
+ *
+ * A random airdrop is never split: chunk totals are decided in plaintext, so only the split inside each
+ * chunk would be random. It must fit in one call (MAX_AIRDROP_CHUNK_SIZE[RANDOM] recipients); use a
+ * random red packet for more claimers.
+ */
+export function splitAirdrop(
+  amount: bigint | number,
+  recipients: string[],
+  packetType: RedPacketType,
+  chunkSize: number = MAX_AIRDROP_CHUNK_SIZE[packetType],
+): AirdropChunk[] {
+  const maxChunkSize = MAX_AIRDROP_CHUNK_SIZE[packetType];
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > maxChunkSize) {
+    throw new RedPacketClientError(`Chunk size must be between 1 and ${maxChunkSize} for this split`);
+  }
+  if (recipients.length === 0) {
+    throw new RedPacketClientError("Airdrop needs at least one recipient");
+  }
+  if (packetType === RedPacketType.RANDOM && recipients.length > chunkSize) {
+    throw new RedPacketClientError(
+      `A random airdrop cannot be split and pays at most ${chunkSize} recipients, use a random red packet for more`,
+    );
+  }
+
+  // A duplicate would be paid twice when it lands in another chunk
+  const seen = new Set<string>();
+  for (const recipient of recipients.map((address) => getAddress(address))) {
+    if (seen.has(recipient)) {
+      throw new RedPacketClientError(`Duplicate recipient ${recipient}`);
+    }
+    seen.add(recipient);
+  }
+  const unique = [...seen];
+
+  const total = BigInt(amount);
+  const chunks: AirdropChunk[] = [];
+  let allocated = 0n;
+  for (let start = 0; start < unique.length; start += chunkSize) {
+    const chunkRecipients = unique.slice(start, start + chunkSize);
+    const isLast = start + chunkSize >= unique.length;
+    const chunkAmount = isLast ? total - allocated : (total * BigInt(chunkRecipients.length)) / BigInt(unique.length);
+
+    allocated += chunkAmount;
+    chunks.push({ amount: chunkAmount, recipients: chunkRecipients });
+  }
+  return chunks;
+}
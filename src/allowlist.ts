@@ -0,0 +1,65 @@
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { getAddress } from "ethers";
+
+import { RedPacketClientError } from "./errors";
+
+/**
+ * Merkle allowlist for a restricted red packet, as written by `task:rp:build-allowlist`.
+ */
+export interface Allowlist {
+  root: string;
+  /** Merkle proofs keyed by checksummed claimer address */
+  proofs: Record<string, string[]>;
+}
+
+/**
+ * Build an allowlist whose leaves match the encoding RedPacket verifies on claim
+ * (OpenZeppelin StandardMerkleTree over a single `address` value).
+ */
+export function buildAllowlist(addresses: string[]): Allowlist {
+  const unique = [...new Set(addresses.map((address) => getAddress(address)))];
+  if (unique.length === 0) {
+    throw new RedPacketClientError("Allowlist must contain at least one address");
+  }
+
+  const tree = StandardMerkleTree.of(
+    unique.map((address) => [address]),
+    ["address"],
+  );
+
+  const proofs: Record<string, string[]> = {};
+  for (const [index, [address]] of tree.entries()) {
+    proofs[address] = tree.getProof(index);
+  }
+
+  return { root: tree.root, proofs };
+}
+
+/**
+ * Get the Merkle proof for an address, or undefined if it is not on the allowlist.
+ */
+export function getAllowlistProof(allowlist: Allowlist, address: string): string[] | undefined {
+  return allowlist.proofs[getAddress(address)];
+}
+
+/**
+ * Parse a list of addresses from a JSON array or from text with one address per line
+ * (commas and whitespace also separate entries, `#` starts a comment).
+ */
+export function parseAddressList(content: string): string[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("[")) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(parsed) || parsed.some((entry) => typeof entry !== "string")) {
+      throw new RedPacketClientError("Address list JSON must be an array of strings");
+    }
+    return parsed.map((address: string) => getAddress(address));
+  }
+
+  return trimmed
+    .split("\n")
+    .map((line) => line.replace(/#.*/, ""))
+    .flatMap((line) => line.split(/[\s,]+/))
+    .filter((entry) => entry.length > 0)
+    .map((address) => getAddress(address));
+}
@@ -0,0 +1,212 @@
+import { RedPacketClientError } from "./errors";
+import { CreatePacketParams, RedPacketType } from "./RedPacketClient";
+
+/** Mirrors the count limit of RedPacket._validateParams */
+export const MAX_PACKET_COUNT = 100;
+
+/** Mirrors the expiry limit of RedPacket._validateParams, in seconds */
+export const MAX_EXPIRE_DURATION = 30 * 24 * 3600;
+
+/** Largest token amount, amounts are euint64 on-chain */
+export const MAX_UINT64 = 2n ** 64n - 1n;
+
+const REQUIRED_COLUMNS = ["type", "amount", "count", "expire", "message"] as const;
+
+const OPTIONAL_COLUMNS = ["password", "vouchers"] as const;
+
+/**
+ * One row of a batch manifest, as written in the file.
+ *
+ * - `type`: normal or random (or 0/1)
+ * - `amount`: total amount in token base units
+ * - `count`: number of shares
+ * - `expire`: hours from the creation of the batch
+ * - `message`: blessing message
+ * - `password` (optional): password claimers must enter
+ * - `vouchers` (optional): true to require creator-signed vouchers
+ */
+export type BatchManifestRow = Record<(typeof REQUIRED_COLUMNS)[number], string> &
+  Partial<Record<(typeof OPTIONAL_COLUMNS)[number], string>>;
+
+export interface BatchRowError {
+  /** 1-based row of the manifest, not counting the CSV header */
+  row: number;
+  message: string;
+}
+
+export interface ValidatedBatch {
+  /** Parameters of every valid row, in manifest order */
+  packets: CreatePacketParams[];
+  errors: BatchRowError[];
+}
+
+// Split one CSV line into fields; double quotes protect commas and "" is an escaped quote
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new RedPacketClientError(`Unterminated quote in CSV line: ${line}`);
+  }
+
+  fields.push(field);
+  return fields.map((value) => value.trim());
+}
+
+function checkColumns(columns: string[]): void {
+  const known: readonly string[] = [...REQUIRED_COLUMNS, ...OPTIONAL_COLUMNS];
+  const unknown = columns.filter((column) => !known.includes(column));
+  if (unknown.length > 0) {
+    throw new RedPacketClientError(`Unknown manifest column(s): ${unknown.join(", ")}`);
+  }
+
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new RedPacketClientError(`Missing manifest column(s): ${missing.join(", ")}`);
+  }
+}
+
+/**
+ * Parse a batch manifest from a JSON array of objects or from CSV with a header line
+ * (blank lines and lines starting with `#` are skipped).
+ * Only the shape is checked here, see {@link validateBatchManifest} for the values.
+ */
+export function parseBatchManifest(content: string): BatchManifestRow[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("[")) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(parsed) || parsed.some((entry) => typeof entry !== "object" || entry === null)) {
+      throw new RedPacketClientError("Batch manifest JSON must be an array of objects");
+    }
+
+    return parsed.map((entry: Record<string, unknown>) => {
+      checkColumns(Object.keys(entry));
+      return Object.fromEntries(
+        Object.entries(entry).map(([column, value]) => [column, String(value ?? "")]),
+      ) as BatchManifestRow;
+    });
+  }
+
+  const [header, ...lines] = trimmed
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0 && !line.trimStart().startsWith("#"));
+  if (header === undefined) {
+    throw new RedPacketClientError("Batch manifest is empty");
+  }
+
+  const columns = splitCsvLine(header).map((column) => column.toLowerCase());
+  checkColumns(columns);
+
+  return lines.map((line, index) => {
+    const fields = splitCsvLine(line);
+    if (fields.length !== columns.length) {
+      throw new RedPacketClientError(`Row ${index + 1} has ${fields.length} fields, expected ${columns.length}`);
+    }
+    return Object.fromEntries(columns.map((column, i) => [column, fields[i]])) as BatchManifestRow;
+  });
+}
+
+function parseType(value: string): RedPacketType | undefined {
+  switch (value.toLowerCase()) {
+    case "0":
+    case "normal":
+      return RedPacketType.NORMAL;
+    case "1":
+    case "random":
+      return RedPacketType.RANDOM;
+    default:
+      return undefined;
+  }
+}
+
+function parseFlag(value: string | undefined): boolean | undefined {
+  switch ((value ?? "").toLowerCase()) {
+    case "":
+    case "false":
+    case "no":
+    case "0":
+      return false;
+    case "true":
+    case "yes":
+    case "1":
+      return true;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Check every row against the limits RedPacket enforces on creation and convert the valid ones.
+ * Expiries are counted from `now`, the block timestamp the batch is created at.
+ */
+export function validateBatchManifest(rows: BatchManifestRow[], now: number): ValidatedBatch {
+  const packets: CreatePacketParams[] = [];
+  const errors: BatchRowError[] = [];
+
+  rows.forEach((row, index) => {
+    const problems: string[] = [];
+
+    const packetType = parseType(row.type);
+    if (packetType === undefined) {
+      problems.push(`type must be normal or random, got "${row.type}"`);
+    }
+
+    const amount = /^\d+$/.test(row.amount) ? BigInt(row.amount) : undefined;
+    if (amount === undefined || amount === 0n || amount > MAX_UINT64) {
+      problems.push(`amount must be a positive 64-bit integer, got "${row.amount}"`);
+    }
+
+    const count = /^\d+$/.test(row.count) ? parseInt(row.count) : undefined;
+    if (count === undefined || count < 1 || count > MAX_PACKET_COUNT) {
+      problems.push(`count must be between 1 and ${MAX_PACKET_COUNT}, got "${row.count}"`);
+    }
+
+    const expireHours = /^\d+$/.test(row.expire) ? parseInt(row.expire) : undefined;
+    if (expireHours === undefined || expireHours < 1 || expireHours * 3600 > MAX_EXPIRE_DURATION) {
+      problems.push(`expire must be between 1 and ${MAX_EXPIRE_DURATION / 3600} hours, got "${row.expire}"`);
+    }
+
+    const voucherRequired = parseFlag(row.vouchers);
+    if (voucherRequired === undefined) {
+      problems.push(`vouchers must be true or false, got "${row.vouchers}"`);
+    }
+
+    if (problems.length > 0) {
+      errors.push(...problems.map((message) => ({ row: index + 1, message })));
+      return;
+    }
+
+    packets.push({
+      packetType: packetType!,
+      amount: amount!,
+      count: count!,
+      expireTime: now + expireHours! * 3600,
+      message: row.message,
+      password: row.password || undefined,
+      voucherRequired,
+    });
+  });
+
+  return { packets, errors };
+}
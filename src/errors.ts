@@ -0,0 +1,139 @@
+import type { Interface } from "ethers";
+
+/**
+ * Custom errors declared by the RedPacket contract.
+ * Keep in sync with the `Errors` section of contracts/RedPacket.sol and the errors it inherits.
+ */
+export const RED_PACKET_ERROR_NAMES = [
+  "RedPacketNotFound",
+  "RedPacketExpiredError",
+  "RedPacketEmpty",
+  "AlreadyClaimed",
+  "InvalidCount",
+  "InvalidExpireTime",
+  "InvalidStartTime",
+  "InvalidTokenAddress",
+  "NotRedPacketCreator",
+  "RedPacketNotExpired",
+  "RedPacketNotStarted",
+  "AlreadyRefunded",
+  "RedPacketNotActive",
+  "NotAllowlisted",
+  "InvalidPassword",
+  "InvalidVoucher",
+  "VoucherExpired",
+  "UnsupportedToken",
+  "TokenAlreadySupported",
+  "InvalidRecipient",
+  "NotRandomRedPacket",
+  "RedPacketNotEmpty",
+  "LuckyKingAlreadyRequested",
+  "ClaimNotFound",
+  "DisclosureAlreadyRequested",
+  "DecryptionRequestNotPending",
+  // Inherited from Ownable
+  "OwnableUnauthorizedAccount",
+] as const;
+
+export type RedPacketErrorName = (typeof RED_PACKET_ERROR_NAMES)[number];
+
+/**
+ * Base class for every error raised by the red packet client.
+ */
+export class RedPacketClientError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "RedPacketClientError";
+  }
+}
+
+/**
+ * A RedPacket custom error decoded from a reverted call or transaction.
+ */
+export class RedPacketContractError extends RedPacketClientError {
+  constructor(
+    readonly errorName: RedPacketErrorName,
+    readonly args: unknown[],
+    options?: ErrorOptions,
+  ) {
+    super(`RedPacket reverted with ${errorName}`, options);
+    this.name = "RedPacketContractError";
+  }
+}
+
+/**
+ * The signer has no ACL permission to user-decrypt an encrypted handle.
+ */
+export class DecryptionPermissionError extends RedPacketClientError {
+  constructor(
+    readonly handle: string,
+    readonly contractAddress: string,
+    readonly userAddress: string,
+    options?: ErrorOptions,
+  ) {
+    super(`${userAddress} has no ACL permission to decrypt handle ${handle} of contract ${contractAddress}`, options);
+    this.name = "DecryptionPermissionError";
+  }
+}
+
+/**
+ * RedPacketWatcher.watch gave up after polling failed too many times in a row.
+ * Watching can resume from `nextBlock` without missing events.
+ */
+export class WatcherStoppedError extends RedPacketClientError {
+  constructor(
+    readonly nextBlock: number | undefined,
+    readonly attempts: number,
+    options?: ErrorOptions,
+  ) {
+    super(`Polling failed ${attempts} times in a row`, options);
+    this.name = "WatcherStoppedError";
+  }
+}
+
+/**
+ * Type guard for a decoded RedPacket custom error, optionally of a given name.
+ */
+export function isRedPacketError<N extends RedPacketErrorName>(
+  error: unknown,
+  errorName?: N,
+): error is RedPacketContractError & { errorName: N } {
+  return error instanceof RedPacketContractError && (errorName === undefined || error.errorName === errorName);
+}
+
+// Revert data may be nested differently depending on the provider (hardhat, JSON-RPC, ethers wrapping)
+function findRevertData(error: unknown, depth: number = 0): string | undefined {
+  if (typeof error !== "object" || error === null || depth > 3) {
+    return undefined;
+  }
+
+  const { data, error: inner, info } = error as { data?: unknown; error?: unknown; info?: { error?: unknown } };
+  if (typeof data === "string" && data.startsWith("0x") && data.length >= 10) {
+    return data;
+  }
+
+  // A hardhat node ProviderError nests it as { data: { message, txHash, data } }
+  return findRevertData(inner, depth + 1) ?? findRevertData(info?.error, depth + 1) ?? findRevertData(data, depth + 1);
+}
+
+function isRedPacketErrorName(name: string): name is RedPacketErrorName {
+  return (RED_PACKET_ERROR_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Decode a RedPacket custom error out of an ethers/hardhat error.
+ * Returns undefined when the error does not carry a known RedPacket revert reason.
+ */
+export function decodeRedPacketError(error: unknown, iface: Interface): RedPacketContractError | undefined {
+  const data = findRevertData(error);
+  if (data === undefined) {
+    return undefined;
+  }
+
+  const parsed = iface.parseError(data);
+  if (parsed === null || !isRedPacketErrorName(parsed.name)) {
+    return undefined;
+  }
+
+  return new RedPacketContractError(parsed.name, [...parsed.args], { cause: error });
+}
@@ -0,0 +1,10 @@
+export * from "./airdrop";
+export * from "./allowlist";
+export * from "./batch";
+export * from "./errors";
+export * from "./indexer";
+export * from "./manifest";
+export * from "./password";
+export * from "./RedPacketClient";
+export * from "./voucher";
+export * from "./watcher";
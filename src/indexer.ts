@@ -0,0 +1,464 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Block, Log, Provider } from "ethers";
+
+// Type-only: hardhat loads this module from the tasks before typechain has generated ../types
+import type { RedPacket } from "../types";
+import { RedPacketClientError } from "./errors";
+import { RedPacketStatus, RedPacketType } from "./RedPacketClient";
+
+// Bump when the store layout changes: stores written by another version are rebuilt from scratch
+const STORE_VERSION = 4;
+
+// Recent sync checkpoints kept on disk to find a common ancestor after a reorg
+const MAX_CHECKPOINTS = 64;
+
+const DEFAULT_BLOCK_RANGE = 2000;
+
+const INDEXED_EVENTS = [
+  "RedPacketCreated",
+  "RedPacketClaimed",
+  "RedPacketExpired",
+  "RedPacketCancelled",
+  "ClaimAmountDisclosed",
+] as const;
+
+export interface IndexedPacket {
+  id: number;
+  creator: string;
+  token: string;
+  packetType: RedPacketType;
+  status: RedPacketStatus;
+  totalCount: number;
+  remainingCount: number;
+  /** When claims open, the creation time unless the packet was scheduled */
+  startTime: number;
+  expireTime: number;
+  createdAt: number;
+  message: string;
+  merkleRoot: string;
+  passwordSigner: string;
+  voucherRequired: boolean;
+}
+
+export interface IndexedClaim {
+  redPacketId: number;
+  user: string;
+  /** Packets left after this claim */
+  remainingCount: number;
+  /** Amount received, only once the claimer has disclosed it (see RedPacket.discloseClaimAmount) */
+  disclosedAmount?: bigint;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+interface EventLocation {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+/**
+ * A decoded RedPacket event, as kept in the store. The indexed state is derived by replaying them in order.
+ */
+export type IndexedEvent = EventLocation &
+  (
+    | {
+        name: "RedPacketCreated";
+        redPacketId: number;
+        creator: string;
+        packetType: RedPacketType;
+        totalCount: number;
+        expireTime: number;
+        message: string;
+        // Not part of the event: read once from getRedPacket when the event is indexed (they never change)
+        token: string;
+        startTime: number;
+        merkleRoot: string;
+        passwordSigner: string;
+        voucherRequired: boolean;
+      }
+    | { name: "RedPacketClaimed"; redPacketId: number; user: string; remainingCount: number }
+    | { name: "RedPacketExpired"; redPacketId: number }
+    | { name: "RedPacketCancelled"; redPacketId: number; unclaimedCount: number }
+    // The amount is a decimal string, the store is plain JSON
+    | { name: "ClaimAmountDisclosed"; redPacketId: number; claimer: string; amount: string }
+  );
+
+interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+interface IndexStore {
+  version: number;
+  chainId: string;
+  address: string;
+  /** Most recent synced blocks, oldest first. The last one is the checkpoint to resume from. */
+  checkpoints: BlockRef[];
+  events: IndexedEvent[];
+}
+
+export interface IndexerOptions {
+  /** JSON file the indexed events and checkpoints are kept in */
+  storePath: string;
+  /** First block to scan, usually the deployment block of the contract */
+  startBlock: number;
+  /** Only index blocks this deep below the chain head (default 0) */
+  confirmations?: number;
+  /** Maximum number of blocks per eth_getLogs request (default 2000) */
+  blockRange?: number;
+}
+
+export interface SyncResult {
+  /** First block scanned, undefined when the index was already up to date */
+  fromBlock?: number;
+  toBlock: number;
+  newEvents: number;
+  /** Block the index was rolled back to after detecting a reorg */
+  rolledBackTo?: number;
+}
+
+/**
+ * Whether an indexed packet can be claimed at `timestamp` (status, start, expiry and remaining count).
+ */
+export function isIndexedPacketActive(packet: IndexedPacket, timestamp: number): boolean {
+  return (
+    packet.status === RedPacketStatus.ACTIVE &&
+    timestamp >= packet.startTime &&
+    timestamp <= packet.expireTime &&
+    packet.remainingCount > 0
+  );
+}
+
+/**
+ * Whether an indexed packet is still stored as ACTIVE but past its expire time at `timestamp`, i.e. a packet
+ * RedPacket.finalizeExpiredRedPackets would expire. Scheduled packets that have not started are not expired.
+ */
+export function isIndexedPacketExpired(packet: IndexedPacket, timestamp: number): boolean {
+  return packet.status === RedPacketStatus.ACTIVE && timestamp > packet.expireTime;
+}
+
+/**
+ * Event-sourced local index of the red packets and claims of a RedPacket contract.
+ *
+ * `sync()` replays RedPacketCreated/Claimed/Expired/Cancelled logs from the last checkpoint
+ * and persists them to `storePath`, so reads never hit the RPC. Before resuming, the stored
+ * checkpoint hash is checked against the chain: on a reorg the index rolls back to the newest
+ * checkpoint still on the canonical chain and replays from there.
+ */
+export class RedPacketIndexer {
+  private store: IndexStore | undefined;
+  private packets = new Map<number, IndexedPacket>();
+  private claims: IndexedClaim[] = [];
+
+  constructor(
+    readonly redPacket: RedPacket,
+    private readonly options: IndexerOptions,
+  ) {}
+
+  // ========== Sync ==========
+
+  /**
+   * Index every new event up to the chain head (minus confirmations) and save the store.
+   */
+  async sync(): Promise<SyncResult> {
+    const provider = this.provider();
+    const store = await this.load();
+
+    const rolledBackTo = await this.rollBackReorg(store, provider);
+
+    const headNumber = (await provider.getBlockNumber()) - (this.options.confirmations ?? 0);
+    const checkpoint = store.checkpoints.at(-1);
+    const fromBlock = checkpoint ? checkpoint.number + 1 : this.options.startBlock;
+
+    if (headNumber < fromBlock) {
+      this.save(store);
+      return { toBlock: checkpoint?.number ?? headNumber, newEvents: 0, rolledBackTo };
+    }
+
+    const head = await this.getBlock(provider, headNumber);
+    const logs = await this.fetchLogs(provider, fromBlock, headNumber);
+    const events = await this.decodeLogs(provider, logs);
+
+    // A reorg while fetching would mix logs from two chains: only keep the batch if the head did not move
+    if ((await this.getBlock(provider, headNumber)).hash !== head.hash) {
+      throw new RedPacketClientError(`Chain reorganized while indexing block ${headNumber}, sync again`);
+    }
+
+    store.events.push(...events);
+    store.checkpoints.push({ number: headNumber, hash: head.hash! });
+    store.checkpoints = store.checkpoints.slice(-MAX_CHECKPOINTS);
+
+    this.save(store);
+    return { fromBlock, toBlock: headNumber, newEvents: events.length, rolledBackTo };
+  }
+
+  /**
+   * Delete the store so that the next sync rebuilds the index from the start block.
+   */
+  reset(): void {
+    fs.rmSync(this.options.storePath, { force: true });
+    this.store = undefined;
+    this.packets.clear();
+    this.claims = [];
+  }
+
+  // ========== Reads ==========
+
+  /** Last indexed block, undefined before the first sync */
+  get checkpoint(): number | undefined {
+    return this.store?.checkpoints.at(-1)?.number;
+  }
+
+  getPacket(redPacketId: number): IndexedPacket | undefined {
+    return this.packets.get(redPacketId);
+  }
+
+  /** Every indexed packet, in id order */
+  listPackets(): IndexedPacket[] {
+    return [...this.packets.values()].sort((a, b) => a.id - b.id);
+  }
+
+  /** Claims of a packet, in claim order */
+  getClaims(redPacketId: number): IndexedClaim[] {
+    return this.claims.filter((claim) => claim.redPacketId === redPacketId);
+  }
+
+  /** Claims made by a user across all packets, in claim order */
+  getClaimsByUser(user: string): IndexedClaim[] {
+    return this.claims.filter((claim) => claim.user.toLowerCase() === user.toLowerCase());
+  }
+
+  // ========== Internal ==========
+
+  private provider(): Provider {
+    const provider = this.redPacket.runner?.provider;
+    if (!provider) {
+      throw new RedPacketClientError("RedPacket contract is not connected to a provider");
+    }
+    return provider;
+  }
+
+  private async getBlock(provider: Provider, blockNumber: number): Promise<Block> {
+    const block = await provider.getBlock(blockNumber);
+    if (!block) {
+      throw new RedPacketClientError(`Block ${blockNumber} not found`);
+    }
+    return block;
+  }
+
+  // Load the store from disk, starting over when it belongs to another chain, contract or store version
+  private async load(): Promise<IndexStore> {
+    const chainId = (await this.provider().getNetwork()).chainId.toString();
+    const address = (await this.redPacket.getAddress()).toLowerCase();
+
+    if (this.store === undefined && fs.existsSync(this.options.storePath)) {
+      this.store = JSON.parse(fs.readFileSync(this.options.storePath, "utf8")) as IndexStore;
+    }
+
+    if (this.store?.version !== STORE_VERSION || this.store.chainId !== chainId || this.store.address !== address) {
+      this.store = { version: STORE_VERSION, chainId, address, checkpoints: [], events: [] };
+    }
+
+    this.rebuild(this.store);
+    return this.store;
+  }
+
+  // Write to a temporary file first so that an interrupted sync never leaves a truncated store
+  private save(store: IndexStore): void {
+    fs.mkdirSync(path.dirname(this.options.storePath), { recursive: true });
+    const tempPath = `${this.options.storePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(store));
+    fs.renameSync(tempPath, this.options.storePath);
+
+    this.rebuild(store);
+  }
+
+  // Drop the events of blocks that are no longer canonical; returns the block the index was rolled back to
+  private async rollBackReorg(store: IndexStore, provider: Provider): Promise<number | undefined> {
+    let kept = store.checkpoints.length;
+    while (kept > 0) {
+      const { number, hash } = store.checkpoints[kept - 1];
+      if ((await provider.getBlock(number))?.hash === hash) {
+        break;
+      }
+      kept--;
+    }
+
+    if (kept === store.checkpoints.length) {
+      return undefined;
+    }
+
+    // No checkpoint survived: the reorg is deeper than the kept history, replay everything
+    const ancestor = kept > 0 ? store.checkpoints[kept - 1].number : this.options.startBlock - 1;
+    store.checkpoints = store.checkpoints.slice(0, kept);
+    store.events = store.events.filter((event) => event.blockNumber <= ancestor);
+    return ancestor;
+  }
+
+  private async fetchLogs(provider: Provider, fromBlock: number, toBlock: number): Promise<Log[]> {
+    const address = await this.redPacket.getAddress();
+    const topics = [INDEXED_EVENTS.map((name) => this.redPacket.interface.getEvent(name).topicHash)];
+    const blockRange = this.options.blockRange ?? DEFAULT_BLOCK_RANGE;
+
+    const logs: Log[] = [];
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+      const end = Math.min(start + blockRange - 1, toBlock);
+      logs.push(...(await provider.getLogs({ address, topics, fromBlock: start, toBlock: end })));
+    }
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+
+  private async decodeLogs(provider: Provider, logs: Log[]): Promise<IndexedEvent[]> {
+    const blocks = new Map<number, Block>();
+    const events: IndexedEvent[] = [];
+
+    for (const log of logs) {
+      const parsed = this.redPacket.interface.parseLog(log);
+      if (!parsed) {
+        continue;
+      }
+
+      if (!blocks.has(log.blockNumber)) {
+        blocks.set(log.blockNumber, await this.getBlock(provider, log.blockNumber));
+      }
+      const block = blocks.get(log.blockNumber)!;
+      if (block.hash !== log.blockHash) {
+        throw new RedPacketClientError(`Chain reorganized while indexing block ${log.blockNumber}, sync again`);
+      }
+
+      const location: EventLocation = {
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        timestamp: block.timestamp,
+      };
+      const redPacketId = Number(parsed.args.redPacketId);
+
+      switch (parsed.name) {
+        case "RedPacketCreated": {
+          const info = await this.redPacket.getRedPacket(redPacketId);
+          events.push({
+            ...location,
+            name: "RedPacketCreated",
+            redPacketId,
+            creator: parsed.args.creator,
+            packetType: Number(parsed.args.packetType) as RedPacketType,
+            totalCount: Number(parsed.args.totalCount),
+            expireTime: Number(parsed.args.expireTime),
+            message: parsed.args.message,
+            token: info.token,
+            startTime: Number(info.startTime),
+            merkleRoot: info.merkleRoot,
+            passwordSigner: info.passwordSigner,
+            voucherRequired: info.voucherRequired,
+          });
+          break;
+        }
+        case "RedPacketClaimed":
+          events.push({
+            ...location,
+            name: "RedPacketClaimed",
+            redPacketId,
+            user: parsed.args.user,
+            remainingCount: Number(parsed.args.remainingCount),
+          });
+          break;
+        case "RedPacketExpired":
+          events.push({ ...location, name: "RedPacketExpired", redPacketId });
+          break;
+        case "RedPacketCancelled":
+          events.push({
+            ...location,
+            name: "RedPacketCancelled",
+            redPacketId,
+            unclaimedCount: Number(parsed.args.unclaimedCount),
+          });
+          break;
+        case "ClaimAmountDisclosed":
+          events.push({
+            ...location,
+            name: "ClaimAmountDisclosed",
+            redPacketId,
+            claimer: parsed.args.claimer,
+            amount: parsed.args.amount.toString(),
+          });
+          break;
+      }
+    }
+    return events;
+  }
+
+  // Derive packets and claims by replaying the stored events in order
+  private rebuild(store: IndexStore): void {
+    this.packets.clear();
+    this.claims = [];
+    for (const event of store.events) {
+      this.apply(event);
+    }
+  }
+
+  private apply(event: IndexedEvent): void {
+    if (event.name === "RedPacketCreated") {
+      this.packets.set(event.redPacketId, {
+        id: event.redPacketId,
+        creator: event.creator,
+        packetType: event.packetType,
+        status: RedPacketStatus.ACTIVE,
+        totalCount: event.totalCount,
+        remainingCount: event.totalCount,
+        startTime: event.startTime,
+        expireTime: event.expireTime,
+        createdAt: event.timestamp,
+        message: event.message,
+        token: event.token,
+        merkleRoot: event.merkleRoot,
+        passwordSigner: event.passwordSigner,
+        voucherRequired: event.voucherRequired,
+      });
+      return;
+    }
+
+    const packet = this.packets.get(event.redPacketId);
+    if (!packet) {
+      return;
+    }
+
+    switch (event.name) {
+      case "RedPacketClaimed":
+        packet.remainingCount = event.remainingCount;
+        if (event.remainingCount === 0) {
+          packet.status = RedPacketStatus.EMPTY;
+        }
+        this.claims.push({
+          redPacketId: event.redPacketId,
+          user: event.user,
+          remainingCount: event.remainingCount,
+          timestamp: event.timestamp,
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        });
+        break;
+      case "RedPacketExpired":
+        packet.status = RedPacketStatus.EXPIRED;
+        break;
+      case "RedPacketCancelled":
+        packet.status = RedPacketStatus.CANCELLED;
+        break;
+      case "ClaimAmountDisclosed": {
+        const claim = this.claims.find(
+          (claim) => claim.redPacketId === event.redPacketId && claim.user === event.claimer,
+        );
+        if (claim) {
+          claim.disclosedAmount = BigInt(event.amount);
+        }
+        break;
+      }
+    }
+  }
+}
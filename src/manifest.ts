@@ -0,0 +1,51 @@
+import { getAddress } from "ethers";
+
+import { RedPacketClientError } from "./errors";
+
+export interface ContractManifestEntry {
+  address: string;
+  /** Block the contract was deployed in, undefined for a reused contract */
+  blockNumber?: number;
+}
+
+/**
+ * Addresses of a RedPacket deployment, as written to `deployments/addresses.<network>.json` by the deploy scripts.
+ */
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contracts: {
+    RedPacket: ContractManifestEntry;
+    ConfidentialToken: ContractManifestEntry;
+  };
+  /** Tokens red packets can be created with when the manifest was written */
+  supportedTokens: string[];
+}
+
+function parseEntry(value: unknown, name: string): ContractManifestEntry {
+  const { address, blockNumber } = (value ?? {}) as Partial<ContractManifestEntry>;
+  if (typeof address !== "string") {
+    throw new RedPacketClientError(`Deployment manifest has no ${name} address`);
+  }
+  return { address: getAddress(address), blockNumber };
+}
+
+/**
+ * Validate a parsed deployment manifest, e.g. `parseDeploymentManifest(await (await fetch(url)).json())`.
+ */
+export function parseDeploymentManifest(json: unknown): DeploymentManifest {
+  const manifest = (json ?? {}) as Partial<DeploymentManifest>;
+  if (typeof manifest.chainId !== "number") {
+    throw new RedPacketClientError("Deployment manifest has no chainId");
+  }
+
+  return {
+    network: String(manifest.network),
+    chainId: manifest.chainId,
+    contracts: {
+      RedPacket: parseEntry(manifest.contracts?.RedPacket, "RedPacket"),
+      ConfidentialToken: parseEntry(manifest.contracts?.ConfidentialToken, "ConfidentialToken"),
+    },
+    supportedTokens: (manifest.supportedTokens ?? []).map((token) => getAddress(token)),
+  };
+}
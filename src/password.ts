@@ -0,0 +1,51 @@
+import { BytesLike, Wallet, getBytes, hexlify, randomBytes, scrypt, toUtf8Bytes } from "ethers";
+
+import type { RedPacket } from "../types";
+
+// scrypt cost of the password key derivation, the ethers keystore defaults: a guess costs as much as unlocking a keystore
+const SCRYPT_N = 2 ** 17;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+/**
+ * Random salt for a new password-protected packet, stored on-chain as its `passwordSalt`.
+ */
+export function newPasswordSalt(): string {
+  return hexlify(randomBytes(32));
+}
+
+/**
+ * Derive the key pair behind a password-protected red packet from the password and the packet's salt.
+ * The creator publishes only its address (the packet's `passwordSigner`); anyone who knows
+ * the password can rebuild the key and sign claims with it. The salt makes the same password
+ * give a different key on every packet, and scrypt makes guessing passwords slow.
+ */
+export async function passwordWallet(password: string, salt: BytesLike): Promise<Wallet> {
+  const key = await scrypt(toUtf8Bytes(password.normalize("NFKC")), getBytes(salt), SCRYPT_N, SCRYPT_R, SCRYPT_P, 32);
+  return new Wallet(key);
+}
+
+/**
+ * Address to pass as `passwordSigner` when creating a packet protected by `password` with `salt`.
+ */
+export async function getPasswordSigner(password: string, salt: BytesLike): Promise<string> {
+  return (await passwordWallet(password, salt)).address;
+}
+
+/**
+ * Sign a claim of `redPacketId` by `claimer` with the password-derived key.
+ * The signature is only valid for that claimer, so it is safe to broadcast.
+ */
+export async function signPasswordClaim(
+  redPacket: RedPacket,
+  password: string,
+  redPacketId: bigint | number,
+  claimer: string,
+): Promise<string> {
+  const [packet, claimHash] = await Promise.all([
+    redPacket.getRedPacket(redPacketId),
+    redPacket.passwordClaimHash(redPacketId, claimer),
+  ]);
+  const wallet = await passwordWallet(password, packet.passwordSalt);
+  return wallet.signMessage(getBytes(claimHash));
+}
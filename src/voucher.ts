@@ -0,0 +1,54 @@
+import type { Signer, TypedDataDomain } from "ethers";
+
+import type { RedPacket } from "../types";
+
+/** EIP-712 types of a creator-signed claim voucher, matching RedPacket.CLAIM_VOUCHER_TYPEHASH */
+export const CLAIM_VOUCHER_TYPES = {
+  ClaimVoucher: [
+    { name: "redPacketId", type: "uint256" },
+    { name: "claimer", type: "address" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * A claim voucher, as written by `task:rp:sign-voucher`.
+ * Numbers are decimal strings so that vouchers survive a JSON round trip.
+ */
+export interface ClaimVoucher {
+  redPacketId: string;
+  claimer: string;
+  /** Unix timestamp in seconds after which the voucher is rejected */
+  deadline: string;
+  signature: string;
+}
+
+/**
+ * Read the EIP-712 domain of a deployed RedPacket contract (ERC-5267).
+ */
+export async function getVoucherDomain(redPacket: RedPacket): Promise<TypedDataDomain> {
+  const { name, version, chainId, verifyingContract } = await redPacket.eip712Domain();
+  return { name, version, chainId, verifyingContract };
+}
+
+/**
+ * Sign a voucher allowing `claimer` to claim a voucher-gated red packet until `deadline`.
+ * `creator` must be the packet creator. Signing is off-chain and costs no gas.
+ */
+export async function signClaimVoucher(
+  redPacket: RedPacket,
+  creator: Signer,
+  redPacketId: bigint | number,
+  claimer: string,
+  deadline: bigint | number,
+): Promise<ClaimVoucher> {
+  const value = { redPacketId: BigInt(redPacketId), claimer, deadline: BigInt(deadline) };
+  const signature = await creator.signTypedData(await getVoucherDomain(redPacket), CLAIM_VOUCHER_TYPES, value);
+
+  return {
+    redPacketId: value.redPacketId.toString(),
+    claimer,
+    deadline: value.deadline.toString(),
+    signature,
+  };
+}
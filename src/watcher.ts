@@ -0,0 +1,251 @@
+import type { Log, Provider } from "ethers";
+import { toBeHex, zeroPadValue } from "ethers";
+
+// Type-only: hardhat loads this module from the tasks before typechain has generated ../types
+import type { RedPacket } from "../types";
+import { RedPacketClientError, WatcherStoppedError } from "./errors";
+import { RedPacketType } from "./RedPacketClient";
+
+const DEFAULT_BLOCK_RANGE = 2000;
+
+const DEFAULT_POLL_INTERVAL = 4000;
+
+const DEFAULT_MAX_RETRIES = 5;
+
+const DEFAULT_RETRY_DELAY = 1000;
+
+const WATCHED_EVENTS = ["RedPacketCreated", "RedPacketClaimed", "RedPacketExpired"] as const;
+
+interface WatchedEventLocation {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/** A RedPacket event reported by the watcher, with plain JSON values */
+export type WatchedEvent = WatchedEventLocation &
+  (
+    | {
+        name: "RedPacketCreated";
+        redPacketId: number;
+        creator: string;
+        packetType: RedPacketType;
+        totalCount: number;
+        expireTime: number;
+        message: string;
+      }
+    | { name: "RedPacketClaimed"; redPacketId: number; user: string; remainingCount: number }
+    | { name: "RedPacketExpired"; redPacketId: number }
+  );
+
+export interface WatcherOptions {
+  /** First block to report, e.g. the block after the last reported event before a restart (default: the next block) */
+  fromBlock?: number;
+  /** Only report events of this packet */
+  redPacketId?: number;
+  /** Only report events of packets created by this address */
+  creator?: string;
+  /** Maximum number of blocks per eth_getLogs request (default 2000) */
+  blockRange?: number;
+}
+
+export interface WatchOptions {
+  /** Milliseconds between polls (default 4000) */
+  pollInterval?: number;
+  /** Stops watching when aborted */
+  signal?: AbortSignal;
+  /** Failed polls in a row retried before giving up (default 5) */
+  maxRetries?: number;
+  /** Milliseconds before the first retry of a failed poll, doubled after each failure in a row (default 1000) */
+  retryDelay?: number;
+  /** Called with the error and the delay in milliseconds before each retry, e.g. to log it */
+  onRetry?: (error: unknown, delay: number) => void;
+}
+
+// Resolves after `ms`, or as soon as the signal is aborted
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+}
+
+/**
+ * Live feed of RedPacketCreated/Claimed/Expired events, e.g. for a bot announcing packets and claims.
+ *
+ * Each `poll()` returns the matching events from the blocks mined since the previous poll. Unlike
+ * RedPacketIndexer nothing is stored: to resume after a restart, pass the block after the last
+ * reported event as `fromBlock`.
+ */
+export class RedPacketWatcher {
+  private next: number | undefined;
+  // Creator of each packet seen so far, to filter claims and expiries by creator
+  private creators = new Map<number, string>();
+
+  constructor(
+    readonly redPacket: RedPacket,
+    private readonly options: WatcherOptions = {},
+  ) {
+    this.next = options.fromBlock;
+  }
+
+  /** Next block to scan, undefined until the first poll when no `fromBlock` was given */
+  get nextBlock(): number | undefined {
+    return this.next;
+  }
+
+  /**
+   * Report the matching events up to the chain head.
+   */
+  async poll(): Promise<WatchedEvent[]> {
+    const provider = this.provider();
+    const head = await provider.getBlockNumber();
+    const fromBlock = this.next ?? head + 1;
+    if (fromBlock > head) {
+      this.next = fromBlock;
+      return [];
+    }
+
+    const logs = await this.fetchLogs(provider, fromBlock, head);
+    const events: WatchedEvent[] = [];
+    for (const log of logs) {
+      const event = this.decodeLog(log);
+      if (event && (await this.matchesCreator(event))) {
+        events.push(event);
+      }
+    }
+
+    this.next = head + 1;
+    return events;
+  }
+
+  /**
+   * Poll until the signal is aborted, passing every matching event to `onEvent` in chain order.
+   *
+   * A failed poll is retried with exponential backoff. Once `maxRetries` retries in a row have failed,
+   * throws a {@link WatcherStoppedError} with the block to resume from.
+   */
+  async watch(onEvent: (event: WatchedEvent) => void, options: WatchOptions = {}): Promise<void> {
+    const {
+      pollInterval = DEFAULT_POLL_INTERVAL,
+      signal,
+      maxRetries = DEFAULT_MAX_RETRIES,
+      retryDelay = DEFAULT_RETRY_DELAY,
+      onRetry,
+    } = options;
+
+    let failures = 0;
+    while (!signal?.aborted) {
+      let events: WatchedEvent[];
+      try {
+        events = await this.poll();
+      } catch (error) {
+        // A failed poll leaves nextBlock untouched, so retrying it does not skip or repeat events
+        if (failures >= maxRetries) {
+          throw new WatcherStoppedError(this.next, failures + 1, { cause: error });
+        }
+        const delay = retryDelay * 2 ** failures;
+        failures++;
+        onRetry?.(error, delay);
+        await sleep(delay, signal);
+        continue;
+      }
+
+      failures = 0;
+      for (const event of events) {
+        onEvent(event);
+      }
+      await sleep(pollInterval, signal);
+    }
+  }
+
+  // ========== Internal ==========
+
+  private provider(): Provider {
+    const provider = this.redPacket.runner?.provider;
+    if (!provider) {
+      throw new RedPacketClientError("RedPacket contract is not connected to a provider");
+    }
+    return provider;
+  }
+
+  private async fetchLogs(provider: Provider, fromBlock: number, toBlock: number): Promise<Log[]> {
+    const address = await this.redPacket.getAddress();
+    // redPacketId is the first indexed argument of every watched event
+    const topics = [
+      WATCHED_EVENTS.map((name) => this.redPacket.interface.getEvent(name).topicHash),
+      this.options.redPacketId === undefined ? null : zeroPadValue(toBeHex(this.options.redPacketId), 32),
+    ];
+    const blockRange = this.options.blockRange ?? DEFAULT_BLOCK_RANGE;
+
+    const logs: Log[] = [];
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+      const end = Math.min(start + blockRange - 1, toBlock);
+      logs.push(...(await provider.getLogs({ address, topics, fromBlock: start, toBlock: end })));
+    }
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+
+  private decodeLog(log: Log): WatchedEvent | undefined {
+    const parsed = this.redPacket.interface.parseLog(log);
+    if (!parsed) {
+      return undefined;
+    }
+
+    const location: WatchedEventLocation = {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+    const redPacketId = Number(parsed.args.redPacketId);
+
+    switch (parsed.name) {
+      case "RedPacketCreated":
+        this.creators.set(redPacketId, parsed.args.creator);
+        return {
+          ...location,
+          name: "RedPacketCreated",
+          redPacketId,
+          creator: parsed.args.creator,
+          packetType: Number(parsed.args.packetType) as RedPacketType,
+          totalCount: Number(parsed.args.totalCount),
+          expireTime: Number(parsed.args.expireTime),
+          message: parsed.args.message,
+        };
+      case "RedPacketClaimed":
+        return {
+          ...location,
+          name: "RedPacketClaimed",
+          redPacketId,
+          user: parsed.args.user,
+          remainingCount: Number(parsed.args.remainingCount),
+        };
+      case "RedPacketExpired":
+        return { ...location, name: "RedPacketExpired", redPacketId };
+      default:
+        return undefined;
+    }
+  }
+
+  private async matchesCreator(event: WatchedEvent): Promise<boolean> {
+    if (this.options.creator === undefined) {
+      return true;
+    }
+
+    // Claims and expiries do not carry the creator: look it up for packets created before the watcher started
+    let creator = this.creators.get(event.redPacketId);
+    if (creator === undefined) {
+      creator = (await this.redPacket.getRedPacket(event.redPacketId)).creator;
+      this.creators.set(event.redPacketId, creator);
+    }
+    return creator.toLowerCase() === this.options.creator.toLowerCase();
+  }
+}
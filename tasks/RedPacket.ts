@@ -1,6 +1,40 @@
-// import { FhevmType } from "@fhevm/hardhat-plugin"; // Unused import
-import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import { getAddress, isAddress } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import {
+  AirdropChunk,
+  Allowlist,
+  BatchManifestRow,
+  ClaimResult,
+  ClaimVoucher,
+  CreatePacketResult,
+  DecryptionPermissionError,
+  MAX_UINT64,
+  RedPacketClient,
+  RedPacketIndexer,
+  RedPacketStatus,
+  RedPacketType,
+  RedPacketView,
+  RedPacketWatcher,
+  SyncResult,
+  WatchedEvent,
+  WatcherStoppedError,
+  buildAllowlist,
+  getAllowlistProof,
+  getEffectiveStatus,
+  getStatusName,
+  isIndexedPacketActive,
+  isIndexedPacketExpired,
+  isRedPacketError,
+  parseAddressList,
+  parseBatchManifest,
+  splitAirdrop,
+  validateBatchManifest,
+} from "../src";
+import { TaskError, TaskLogger, TaskResult, rpTask, taskAction, toTaskError } from "./output";
+import { TaskSigner, resolveSigner } from "./signer";
 
 /**
  * Tutorial: Red Packet Tasks
@@ -12,7 +46,7 @@ import type { TaskArguments } from "hardhat/types";
  * 2. Mint test tokens (First time setup):
  *    npx hardhat task:rp:mint-tokens --amount 1000000 --network localhost
  *
- * 3. Approve contract as operator (Required before creating red packets):
+ * 3. Approve contract as operator (Required before creating red packets, unless --transfer-and-call is used):
  *    npx hardhat task:rp:approve-operator --network localhost
  *
  * 4. Create a normal red packet:
@@ -24,13 +58,14 @@ import type { TaskArguments } from "hardhat/types";
  *      --message "Happy New Year!" \
  *      --network localhost
  *
- * 5. Create a random red packet:
+ * 5. Create a random red packet in a single transaction, without operator approval:
  *    npx hardhat task:rp:create-redpacket \
  *      --type 1 \
  *      --amount 2000 \
  *      --count 5 \
  *      --expire 48 \
  *      --message "Lucky Draw!" \
+ *      --transfer-and-call \
  *      --network localhost
  *
  * 6. View red packet info:
@@ -39,331 +74,1481 @@ import type { TaskArguments } from "hardhat/types";
  * 7. Claim red packet:
  *    npx hardhat task:rp:claim-redpacket --id 0 --network localhost
  *
- * 8. View my claim record:
+ * 8. View my claim record (decrypts the claimed amount):
  *    npx hardhat task:rp:view-claim --id 0 --network localhost
  *
- * 9. Check token balance:
+ * 9. Check token balance (add --total-supply as the token owner to decrypt the supply):
  *    npx hardhat task:rp:view-balance --network localhost
  *
- * 10. List all red packets:
+ * 10. List red packets, optionally filtered by creator and/or status, one page at a time:
  *    npx hardhat task:rp:list-redpackets --network localhost
+ *    npx hardhat task:rp:list-redpackets --creator 0x... --status active --page 2 --limit 10 --network localhost
+ *
+ * 11. Refund an expired red packet (creator only):
+ *    npx hardhat task:rp:refund-redpacket --id 0 --network localhost
+ *
+ * 12. Cancel an active red packet (creator only):
+ *    npx hardhat task:rp:cancel-redpacket --id 0 --network localhost
+ *
+ * 13. Restrict a red packet to an allowlist (addresses.txt has one address per line):
+ *    npx hardhat task:rp:build-allowlist --input addresses.txt --output allowlist.json --network localhost
+ *    npx hardhat task:rp:create-redpacket ... --allowlist allowlist.json --network localhost
+ *    npx hardhat task:rp:claim-redpacket --id 0 --allowlist allowlist.json --network localhost
+ *
+ * 14. Protect a red packet with a password (only a key derived from it is published):
+ *    npx hardhat task:rp:create-redpacket ... --password "open sesame" --network localhost
+ *    npx hardhat task:rp:claim-redpacket --id 0 --password "open sesame" --network localhost
+ *
+ * 15. Hand out claims with creator-signed vouchers (signing is off-chain, no gas per user):
+ *    npx hardhat task:rp:create-redpacket ... --vouchers --network localhost
+ *    npx hardhat task:rp:sign-voucher --id 0 --claimer 0x... --expire 24 --output vouchers.json --network localhost
+ *    npx hardhat task:rp:claim-redpacket --id 0 --voucher vouchers.json --network localhost
+ *
+ * 16. Show claim history from the local event index (a packet's claims, or a user's, defaults to me):
+ *    npx hardhat task:rp:claim-history --id 0 --network localhost
+ *    npx hardhat task:rp:claim-history --user 0x... --network localhost
+ *
+ * 17. Rebuild the local event index from the deployment block:
+ *    npx hardhat task:rp:index --reset --network localhost
+ *
+ * 18. Support another ERC-7984 token (RedPacket owner only), then use it with --token
+ *     (mint-tokens, approve-operator, create-redpacket, view-balance, list-redpackets):
+ *    npx hardhat task:rp:add-token --token 0x... --network localhost
+ *    npx hardhat task:rp:list-tokens --network localhost
+ *    npx hardhat task:rp:create-redpacket ... --token 0x... --network localhost
+ *    npx hardhat task:rp:remove-token --token 0x... --network localhost
+ *
+ * 19. Watch new red packets, claims and expiries live, optionally as NDJSON for a bot
+ *     (resume after a restart with the --from-block printed on exit):
+ *    npx hardhat task:rp:watch --network localhost
+ *    npx hardhat task:rp:watch --creator 0x... --ndjson --from-block 1234 --network localhost
+ *
+ * 20. Script any task: --json prints one JSON object with the result (or an error code) and failed
+ *     tasks exit with code 1:
+ *    npx hardhat task:rp:claim-redpacket --id 0 --json --network localhost
+ *    {"ok":false,"error":{"code":"ALREADY_CLAIMED","message":"You have already claimed this red packet"}}
+ *
+ * 21. Act as another account with --signer (an index or address), --private-key or --keystore
+ *     (unlocked with the KEYSTORE_PASSWORD hardhat var), e.g. to let several accounts claim:
+ *    npx hardhat task:rp:fund-accounts --amount 10000 --accounts 1-5 --network localhost
+ *    npx hardhat task:rp:claim-redpacket --id 0 --signer 3 --network localhost
+ *    npx hardhat task:rp:claim-redpacket --id 0 --keystore alice.json --network localhost
+ *
+ * 22. Create many red packets at once from a CSV or JSON manifest (header: type,amount,count,expire,message);
+ *     every row is validated before anything is sent, results go to batch-results.json:
+ *    npx hardhat task:rp:create-batch --input campaign.csv --dry-run --network localhost
+ *    npx hardhat task:rp:create-batch --input campaign.csv --output batch-results.json --network localhost
+ *
+ * 23. Pay a list of recipients directly (recipients.txt has one address per line), split equally (--type 0)
+ *     in transactions of at most 10 recipients, or randomly (--type 1) between at most 2 (winners.txt):
+ *    npx hardhat task:rp:airdrop --recipients winners.txt --amount 10000 --type 1 --message "Bonus" --network localhost
+ *
+ * 24. Keep stored statuses up to date: expire and refund every red packet past its expire time, in batches.
+ *     Anyone can run it, e.g. from a cron job; candidates come from the local index or, with --scan, the contract:
+ *    npx hardhat task:rp:sweep-expired --dry-run --network localhost
+ *    npx hardhat task:rp:sweep-expired --scan --network localhost
+ *
+ * 25. Schedule a red packet to open later (claims fail with NOT_STARTED until then, --expire counts from the start):
+ *    npx hardhat task:rp:create-redpacket ... --start 2027-02-05T16:00:00Z --expire 24 --network localhost
+ *
+ * 26. Reveal who got the largest share once a random red packet is fully claimed (anyone can ask, only once;
+ *     the decryption oracle answers in a later transaction, the task waits for it):
+ *    npx hardhat task:rp:reveal-lucky-king --id 1 --network localhost
+ *
+ * 27. Show off what you received: publicly disclose your own claimed amount (other claims stay private),
+ *     it then shows up in view-redpacket and claim-history:
+ *    npx hardhat task:rp:disclose-claim --id 0 --network localhost
+ *
+ * 28. As a creator, decrypt how much of your red packets has been claimed and how much is left, with every
+ *     claimer and claim time (only the creator can decrypt these totals):
+ *    npx hardhat task:rp:creator-report --network localhost
+ *    npx hardhat task:rp:creator-report --id 0 --network localhost
  */
 
 // Helper function to format timestamps
-function formatTime(timestamp: number): string {
-  return new Date(timestamp * 1000).toLocaleString();
+function formatTime(timestamp: number | bigint): string {
+  return new Date(Number(timestamp) * 1000).toLocaleString();
+}
+
+// Helper function to format the on-chain RedPacketType enum
+function formatType(packetType: RedPacketType): string {
+  return packetType === RedPacketType.NORMAL ? "Normal" : "Random";
+}
+
+// Red packet status names, indexed by the RedPacketStatus enum value
+const STATUS_NAMES = ["Active", "Expired", "Empty", "Cancelled"];
+
+// Helper function to format the on-chain RedPacketStatus enum
+function formatStatus(status: RedPacketStatus): string {
+  return STATUS_NAMES[status] ?? `Unknown (${status})`;
+}
+
+// Helper function to name the effective status of a packet (see getEffectiveStatus), "Scheduled" before it starts
+function formatEffectiveStatus(status: RedPacketStatus, isScheduled: boolean): string {
+  return isScheduled ? "Scheduled" : formatStatus(status);
+}
+
+// Helper function to parse a status name or RedPacketStatus value, undefined if unknown
+function parseStatus(value: string): RedPacketStatus | undefined {
+  const index = STATUS_NAMES.findIndex((name) => name.toLowerCase() === value.toLowerCase());
+  const status = index >= 0 ? index : parseInt(value);
+  return status in STATUS_NAMES ? (status as RedPacketStatus) : undefined;
+}
+
+// Helper function to parse a non-negative integer argument
+function parseIntArg(name: string, value: string): number {
+  if (!/^\d+$/.test(String(value).trim())) {
+    throw new TaskError("INVALID_ARGUMENT", `--${name} must be a non-negative integer, got "${value}"`);
+  }
+  const parsed = parseInt(value);
+  if (!Number.isSafeInteger(parsed)) {
+    throw new TaskError("INVALID_ARGUMENT", `--${name} is too large, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Helper function to parse a token amount argument, a positive 64-bit integer like the encrypted amounts on-chain
+function parseAmountArg(name: string, value: string): bigint {
+  const trimmed = String(value).trim();
+  const amount = /^\d+$/.test(trimmed) ? BigInt(trimmed) : undefined;
+  if (amount === undefined || amount === 0n || amount > MAX_UINT64) {
+    throw new TaskError("INVALID_ARGUMENT", `--${name} must be a positive 64-bit integer, got "${value}"`);
+  }
+  return amount;
+}
+
+// Helper function to parse a positive duration in seconds, fractions allowed, into milliseconds
+function parseSecondsArg(name: string, value: string): number {
+  const trimmed = String(value).trim();
+  const seconds = /^\d+(\.\d+)?$/.test(trimmed) ? parseFloat(trimmed) : 0;
+  if (!(seconds > 0)) {
+    throw new TaskError("INVALID_ARGUMENT", `--${name} must be a positive number of seconds, got "${value}"`);
+  }
+  return seconds * 1000;
+}
+
+// Helper function to parse a point in time given as a unix timestamp in seconds or a date string like 2027-02-05T16:00:00Z
+function parseTimeArg(name: string, value: string): number {
+  const trimmed = String(value).trim();
+  const timestamp = /^\d+$/.test(trimmed) ? parseInt(trimmed) : Date.parse(trimmed) / 1000;
+  if (!Number.isFinite(timestamp)) {
+    throw new TaskError("INVALID_ARGUMENT", `--${name} must be a unix timestamp or a date, got "${value}"`);
+  }
+  return Math.floor(timestamp);
+}
+
+// Helper function to parse an address argument into its checksummed form
+function parseAddressArg(name: string, value: string): string {
+  if (!isAddress(value)) {
+    throw new TaskError("INVALID_ARGUMENT", `--${name} must be an address, got "${value}"`);
+  }
+  return getAddress(value);
+}
+
+// Helper function to parse account indexes like "1-5" or "1,3,7"
+function parseAccountIndexes(value: string): number[] {
+  const indexes = new Set<number>();
+  for (const part of String(value).split(",")) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!match || (match[2] !== undefined && parseInt(match[2]) < parseInt(match[1]))) {
+      throw new TaskError("INVALID_ARGUMENT", `--accounts must look like 1-5 or 1,3,7, got "${value}"`);
+    }
+    for (let index = parseInt(match[1]); index <= parseInt(match[2] ?? match[1]); index++) {
+      indexes.add(index);
+    }
+  }
+  return [...indexes];
+}
+
+// Helper function to describe an error, preferring decoded RedPacket custom errors
+function describeError(error: unknown): string {
+  if (isRedPacketError(error)) {
+    return error.errorName;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Helper function to read an allowlist file written by task:rp:build-allowlist
+function readAllowlist(file: string): Allowlist {
+  return JSON.parse(fs.readFileSync(file, "utf8")) as Allowlist;
+}
+
+// Helper function to find the voucher for a claimer in a file written by task:rp:sign-voucher
+function readVoucher(file: string, redPacketId: number, claimer: string): ClaimVoucher | undefined {
+  const content = JSON.parse(fs.readFileSync(file, "utf8")) as ClaimVoucher | ClaimVoucher[];
+  const vouchers = Array.isArray(content) ? content : [content];
+  return vouchers.find(
+    (voucher) => Number(voucher.redPacketId) === redPacketId && voucher.claimer.toLowerCase() === claimer.toLowerCase(),
+  );
+}
+
+// Helper function to describe a watched event on one line
+function formatWatchedEvent(event: WatchedEvent): string {
+  switch (event.name) {
+    case "RedPacketCreated":
+      return `🧧 #${event.redPacketId} created by ${event.creator}: ${formatType(event.packetType)}, ` +
+        `${event.totalCount} shares, expires ${formatTime(event.expireTime)} - "${event.message}"`;
+    case "RedPacketClaimed":
+      return `🎉 #${event.redPacketId} claimed by ${event.user} (${event.remainingCount} left)`;
+    case "RedPacketExpired":
+      return `⌛ #${event.redPacketId} expired, unclaimed balance refunded to the creator`;
+  }
+}
+
+// Blocks to wait before indexing on public networks, where shallow reorgs are expected
+const INDEX_CONFIRMATIONS = 5;
+
+/**
+ * Helper function to bring the local event index of the current network up to date.
+ * The index is stored in the hardhat cache directory, one file per network.
+ * With `reset`, the index is deleted and rebuilt from the deployment block.
+ */
+async function syncIndexer(
+  hre: HardhatRuntimeEnvironment,
+  client: RedPacketClient,
+  log: TaskLogger,
+  reset: boolean = false,
+): Promise<{ indexer: RedPacketIndexer; sync: SyncResult }> {
+  const deployment = await hre.deployments.get("RedPacket");
+  const isLocalNetwork = ["hardhat", "localhost", "anvil"].includes(hre.network.name);
+
+  const indexer = new RedPacketIndexer(client.redPacket, {
+    storePath: path.join(hre.config.paths.cache, "redpacket-index", `${hre.network.name}.json`),
+    startBlock: deployment.receipt?.blockNumber ?? 0,
+    confirmations: isLocalNetwork ? 0 : INDEX_CONFIRMATIONS,
+  });
+
+  if (reset) {
+    indexer.reset();
+    log("🗑️  Index deleted");
+  }
+
+  const sync = await indexer.sync();
+  if (sync.rolledBackTo !== undefined) {
+    log(`⚠️  Reorg detected, index rolled back to block ${sync.rolledBackTo}`);
+  }
+  if (sync.fromBlock !== undefined) {
+    log(`🔎 Indexed blocks ${sync.fromBlock}-${sync.toBlock} (${sync.newEvents} new events)`);
+  }
+  return { indexer, sync };
+}
+
+// Helper function to get the latest block timestamp, used to tell whether indexed packets have expired
+async function latestTimestamp(hre: HardhatRuntimeEnvironment): Promise<number> {
+  const block = await hre.ethers.provider.getBlock("latest");
+  return block!.timestamp;
+}
+
+/**
+ * Helper function to wait for a public decryption requested from the decryption oracle.
+ * `read` returns the stored result, undefined until the oracle has called back. The mock oracle of a local
+ * network only answers when asked, a real one in its own time: it is polled for up to `wait` seconds.
+ */
+async function awaitOracle<T>(
+  hre: HardhatRuntimeEnvironment,
+  log: TaskLogger,
+  wait: number,
+  read: () => Promise<T | undefined>,
+): Promise<T> {
+  let result = await read();
+  await hre.fhevm.initializeCLIApi();
+  if (result === undefined && hre.fhevm.isMock) {
+    await hre.fhevm.awaitDecryptionOracle();
+    result = await read();
+  }
+
+  const deadline = Date.now() + wait * 1000;
+  while (result === undefined && Date.now() < deadline) {
+    log("⏳ Waiting for the decryption oracle...");
+    await new Promise((resolve) => setTimeout(resolve, 4000));
+    result = await read();
+  }
+  if (result === undefined) {
+    throw new TaskError("TIMEOUT", "The decryption oracle has not answered yet, run the task again later");
+  }
+  return result;
+}
+
+// Helper function to resolve a --token argument, defaulting to the deployed ConfidentialToken
+async function resolveToken(hre: HardhatRuntimeEnvironment, token?: string): Promise<string> {
+  return token ? parseAddressArg("token", token) : (await hre.deployments.get("ConfidentialToken")).address;
+}
+
+/**
+ * Helper function to connect a RedPacketClient to the deployed contracts as the signer selected by the task options.
+ * The client funds new packets with `tokenAddress`, by default the deployed ConfidentialToken.
+ * Tasks that encrypt or decrypt must call `fhevm.initializeCLIApi()` beforehand.
+ */
+async function connectClient(
+  hre: HardhatRuntimeEnvironment,
+  taskArgs: TaskArguments,
+  log: TaskLogger,
+  tokenAddress?: string,
+): Promise<{ client: RedPacketClient; signer: TaskSigner }> {
+  const { ethers, deployments, fhevm } = hre;
+  const signer = await resolveSigner(hre, taskArgs);
+
+  const redPacketDeployment = await deployments.get("RedPacket");
+  log(`RedPacket Contract: ${redPacketDeployment.address}`);
+
+  const redPacket = await ethers.getContractAt("RedPacket", redPacketDeployment.address, signer);
+  const token = await ethers.getContractAt("ConfidentialToken", await resolveToken(hre, tokenAddress), signer);
+
+  return { client: new RedPacketClient(redPacket, token, signer, fhevm), signer };
+}
+
+/**
+ * Helper function to check, before pulling `amount` tokens in several transactions, that the RedPacket
+ * contract is an operator of the signer and that the signer's decrypted balance covers the amount.
+ * A confidential transfer above the balance silently moves 0 tokens, which would create empty packets.
+ */
+async function checkFunding(client: RedPacketClient, signer: TaskSigner, amount: bigint): Promise<bigint> {
+  if (!(await client.token.isOperator(signer.address, await client.redPacket.getAddress()))) {
+    throw new TaskError(
+      "OPERATOR_NOT_APPROVED",
+      "The RedPacket contract is not an operator of your tokens, run task:rp:approve-operator first",
+    );
+  }
+
+  const balance = await client.decryptBalance();
+  if (balance < amount) {
+    throw new TaskError("INSUFFICIENT_BALANCE", `${amount} tokens are needed but the balance is ${balance}`);
+  }
+  return balance;
+}
+
+// JSON form of a packet, with enum names instead of values
+function packetJson(packet: RedPacketView): TaskResult {
+  return {
+    id: Number(packet.id),
+    creator: packet.creator,
+    token: packet.token,
+    type: RedPacketType[packet.packetType],
+    status: getStatusName(packet),
+    isScheduled: packet.isScheduled,
+    totalCount: Number(packet.totalCount),
+    remainingCount: Number(packet.remainingCount),
+    createdAt: Number(packet.createdAt),
+    startTime: Number(packet.startTime),
+    expireTime: Number(packet.expireTime),
+    message: packet.message,
+  };
 }
 
 /**
  * Task: Mint test tokens for red packet testing
  */
-task("task:rp:mint-tokens", "Mint test tokens for red packet testing")
+rpTask("task:rp:mint-tokens", "Mint test tokens for red packet testing (token owner only)")
   .addParam("amount", "Amount of tokens to mint")
-  .setAction(async (taskArgs: TaskArguments, { ethers, deployments, fhevm: _fhevm }) => {
-    const [deployer] = await ethers.getSigners();
-    console.log("Minting tokens for:", deployer.address);
+  .addOptionalParam("to", "Recipient (default: the signer)")
+  .addOptionalParam("token", "ConfidentialToken address (default: the deployed ConfidentialToken)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const amount = parseAmountArg("amount", taskArgs.amount);
+    const { client, signer } = await connectClient(hre, taskArgs, log, taskArgs.token);
+    const { token } = client;
+    const tokenAddress = await token.getAddress();
+    const to = taskArgs.to ? parseAddressArg("to", taskArgs.to) : signer.address;
+    log("Minting tokens for:", to);
+    log(`Token Contract: ${tokenAddress}`);
 
-    // Get token contract from deployments
-    const tokenDeployment = await deployments.get("ConfidentialToken");
-    console.log(`Token Contract: ${tokenDeployment.address}`);
-
-    const token = await ethers.getContractAt("ConfidentialToken", tokenDeployment.address);
-    const amount = parseInt(taskArgs.amount);
+    const owner = await token.owner();
+    if (owner !== signer.address) {
+      throw new TaskError("NOT_OWNER", `Only the token owner (${owner}) can mint, pass --signer`);
+    }
 
     // Mint tokens
-    const tx = await token.mint(deployer.address, amount);
+    const tx = await token.mint(to, amount);
     await tx.wait();
 
-    console.log(`✅ Minted ${amount} tokens to ${deployer.address}`);
-  });
+    log(`✅ Minted ${amount} tokens to ${to}`);
+    return { account: to, token: tokenAddress, amount: String(amount), txHash: tx.hash };
+  }));
 
 /**
  * Task: Approve red packet contract as operator
  */
-task("task:rp:approve-operator", "Approve red packet contract as operator")
-  .setAction(async (taskArgs: TaskArguments, { ethers, deployments, fhevm: _fhevm }) => {
-    const [deployer] = await ethers.getSigners();
-    console.log("Approving operator for:", deployer.address);
-
-    // Get contracts from deployments
-    const tokenDeployment = await deployments.get("ConfidentialToken");
-    const redPacketDeployment = await deployments.get("RedPacket");
-    
-    console.log(`Token Contract: ${tokenDeployment.address}`);
-    console.log(`RedPacket Contract: ${redPacketDeployment.address}`);
-
-    const token = await ethers.getContractAt("ConfidentialToken", tokenDeployment.address);
-    
+rpTask("task:rp:approve-operator", "Approve red packet contract as operator")
+  .addOptionalParam("token", "Token to approve the operator on (default: the deployed ConfidentialToken)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const { client, signer } = await connectClient(hre, taskArgs, log, taskArgs.token);
+    const tokenAddress = await client.token.getAddress();
+    log("Approving operator for:", signer.address);
+    log(`Token Contract: ${tokenAddress}`);
+
     // Set operator for far future (following test pattern)
-    const block = await ethers.provider.getBlock("latest");
-    const futureTimestamp = block!.timestamp + 100000000; // Far future
-    const tx = await token.setOperator(redPacketDeployment.address, futureTimestamp);
-    await tx.wait();
+    const { operator, until, txHash } = await client.approveOperator();
 
-    console.log(`✅ Approved ${redPacketDeployment.address} as operator until ${formatTime(futureTimestamp)}`);
-  });
+    log(`✅ Approved ${operator} as operator until ${formatTime(until)}`);
+    return { account: signer.address, token: tokenAddress, operator, until, txHash };
+  }));
+
+/**
+ * Task: Fund local accounts
+ */
+rpTask("task:rp:fund-accounts", "Mint tokens to a range of network accounts and approve the operator for each")
+  .addParam("amount", "Amount of tokens to mint to each account")
+  .addOptionalParam("accounts", "Account indexes, e.g. 1-5 or 1,3,7", "0-9")
+  .addOptionalParam("token", "ConfidentialToken address (default: the deployed ConfidentialToken)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const amount = parseAmountArg("amount", taskArgs.amount);
+    const indexes = parseAccountIndexes(taskArgs.accounts);
+    const accounts = await hre.ethers.getSigners();
+    const missing = indexes.filter((index) => index >= accounts.length);
+    if (missing.length > 0) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        `Network ${hre.network.name} has ${accounts.length} accounts, no account ${missing.join(", ")}`,
+      );
+    }
+
+    // The signer mints, each account approves the operator itself
+    const { client, signer } = await connectClient(hre, taskArgs, log, taskArgs.token);
+    const tokenAddress = await client.token.getAddress();
+    log(`Token Contract: ${tokenAddress}`);
+
+    const owner = await client.token.owner();
+    if (owner !== signer.address) {
+      throw new TaskError("NOT_OWNER", `Only the token owner (${owner}) can mint, pass --signer`);
+    }
+
+    const funded: TaskResult[] = [];
+    for (const index of indexes) {
+      const account = accounts[index];
+      const mint = await client.token.mint(account.address, amount);
+      await mint.wait();
+      const { txHash } = await client.withSigner(account).approveOperator();
+
+      log(`✅ #${index} ${account.address}: minted ${amount} tokens, operator approved`);
+      funded.push({ index, address: account.address, mintTxHash: mint.hash, approveTxHash: txHash });
+    }
+
+    return { token: tokenAddress, amount: String(amount), accounts: funded };
+  }));
 
 /**
  * Task: Create a red packet
  */
-task("task:rp:create-redpacket", "Create a new red packet")
+rpTask("task:rp:create-redpacket", "Create a new red packet")
   .addParam("type", "Red packet type (0=Normal, 1=Random)")
   .addParam("amount", "Total amount for the red packet")
   .addParam("count", "Number of red packets")
-  .addParam("expire", "Expiration time in hours")
+  .addParam("expire", "Expiration time in hours (counted from --start when given)")
   .addParam("message", "Blessing message")
-  .setAction(async (taskArgs: TaskArguments, { ethers, deployments, fhevm }) => {
-    const [deployer] = await ethers.getSigners();
-    console.log("Creating red packet for:", deployer.address);
+  .addOptionalParam("start", "When claims open: unix timestamp or date, e.g. 2027-02-05T16:00:00Z (default: now)")
+  .addOptionalParam("allowlist", "Allowlist JSON file from task:rp:build-allowlist (restricts who can claim)")
+  .addOptionalParam("password", "Password claimers must enter")
+  .addFlag("vouchers", "Require a creator-signed voucher to claim (see task:rp:sign-voucher)")
+  .addFlag("transferAndCall", "Send the tokens with confidentialTransferAndCall (no operator approval needed)")
+  .addOptionalParam("token", "Supported token to fund the packet with (default: the deployed ConfidentialToken)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const { ethers, fhevm } = hre;
+
+    const packetType = parseIntArg("type", taskArgs.type) as RedPacketType;
+    if (!(packetType in RedPacketType)) {
+      throw new TaskError("INVALID_ARGUMENT", `--type must be 0 (Normal) or 1 (Random), got ${packetType}`);
+    }
+    const amount = parseAmountArg("amount", taskArgs.amount);
+    const count = parseIntArg("count", taskArgs.count);
+    const expireHours = parseIntArg("expire", taskArgs.expire);
+    const startTime = taskArgs.start !== undefined ? parseTimeArg("start", taskArgs.start) : undefined;
+    const message = taskArgs.message;
+    const merkleRoot = taskArgs.allowlist ? readAllowlist(taskArgs.allowlist).root : undefined;
+    const password = taskArgs.password;
+    const voucherRequired = taskArgs.vouchers;
 
     // Initialize FHEVM CLI API
     await fhevm.initializeCLIApi();
 
-    // Get contracts from deployments
-    const tokenDeployment = await deployments.get("ConfidentialToken");
-    const redPacketDeployment = await deployments.get("RedPacket");
-    
-    console.log(`Token Contract: ${tokenDeployment.address}`);
-    console.log(`RedPacket Contract: ${redPacketDeployment.address}`);
-
-    const redPacket = await ethers.getContractAt("RedPacket", redPacketDeployment.address);
-    
-    const packetType = parseInt(taskArgs.type);
-    const amount = parseInt(taskArgs.amount);
-    const count = parseInt(taskArgs.count);
-    const expireHours = parseInt(taskArgs.expire);
-    const message = taskArgs.message;
-    
-    // Calculate expiration time using blockchain timestamp
+    const { client, signer } = await connectClient(hre, taskArgs, log, taskArgs.token);
+    const tokenAddress = await client.token.getAddress();
+    log("Creating red packet for:", signer.address);
+    log(`Token Contract: ${tokenAddress}`);
+
+    // Calculate expiration time using blockchain timestamp, or from the scheduled start
     const block = await ethers.provider.getBlock("latest");
-    console.log(`Block timestamp: ${block!.timestamp}`);
-    const expireTime = block!.timestamp + (expireHours * 3600);
-
-    console.log(`Creating red packet:`);
-    console.log(`  Type: ${packetType === 0 ? 'Normal' : 'Random'}`);
-    console.log(`  Amount: ${amount}`);
-    console.log(`  Count: ${count}`);
-    console.log(`  Expires: ${formatTime(expireTime)}`);
-    console.log(`  Message: ${message}`);
-
-    // Create encrypted input
-    const encryptedInput = await fhevm.createEncryptedInput(
-      tokenDeployment.address,
-      redPacketDeployment.address
-    ).add64(amount).encrypt();
-
-    // Create red packet
-    const tx = await redPacket.createRedPacket(
-      packetType,
-      encryptedInput.handles[0],
-      encryptedInput.inputProof,
-      count,
+    log(`Block timestamp: ${block!.timestamp}`);
+    if (startTime !== undefined && startTime < block!.timestamp) {
+      throw new TaskError("INVALID_ARGUMENT", `--start ${formatTime(startTime)} is in the past`);
+    }
+    const expireTime = (startTime ?? block!.timestamp) + (expireHours * 3600);
+
+    log(`Creating red packet:`);
+    log(`  Type: ${formatType(packetType)}`);
+    log(`  Amount: ${amount}`);
+    log(`  Count: ${count}`);
+    log(`  Starts: ${startTime !== undefined ? formatTime(startTime) : 'Now'}`);
+    log(`  Expires: ${formatTime(expireTime)}`);
+    log(`  Message: ${message}`);
+    log(`  Allowlist: ${merkleRoot ?? 'Open to everyone'}`);
+    log(`  Password: ${password ? 'Required' : 'None'}`);
+    log(`  Vouchers: ${voucherRequired ? 'Required' : 'Not required'}`);
+
+    const params = { packetType, amount, count, startTime, expireTime, message, merkleRoot, password, voucherRequired };
+    let result: CreatePacketResult;
+    try {
+      result = taskArgs.transferAndCall
+        ? await client.transferAndCreatePacket(params)
+        : await client.createPacket(params);
+    } catch (error) {
+      throw toTaskError(error, {
+        InvalidCount: "--count must be between 1 and 100",
+        InvalidExpireTime: startTime !== undefined
+          ? "--start plus --expire must be at most 30 days from now"
+          : "--expire must be between 1 hour and 30 days",
+        InvalidStartTime: "--start must be between now and the expiry",
+      });
+    }
+
+    log(`✅ Red packet created! Transaction: ${result.txHash}`);
+    log(`📦 Red Packet ID: ${result.redPacketId}`);
+    return {
+      redPacketId: Number(result.redPacketId),
+      txHash: result.txHash,
+      creator: signer.address,
+      token: tokenAddress,
+      type: RedPacketType[packetType],
+      totalCount: count,
+      startTime: startTime ?? null,
       expireTime,
-      message
-    );
-    
-    const receipt = await tx.wait();
-    console.log(`✅ Red packet created! Transaction: ${tx.hash}`);
+      message,
+      merkleRoot: merkleRoot ?? null,
+      passwordProtected: password !== undefined,
+      voucherRequired,
+    };
+  }));
 
-    // Get red packet ID from events
-    const event = receipt?.logs.find((log: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
-      try {
-        const parsed = redPacket.interface.parseLog(log);
-        return parsed?.name === "RedPacketCreated";
-      } catch {
-        return false;
+/**
+ * Task: Create red packets from a manifest
+ */
+rpTask("task:rp:create-batch", "Create red packets from a CSV or JSON manifest")
+  .addParam("input", "Manifest with columns type, amount, count, expire (hours), message[, password, vouchers]")
+  .addOptionalParam("output", "Where to write the per-row results", "batch-results.json")
+  .addFlag("dryRun", "Only validate the manifest and the balance, send nothing")
+  .addOptionalParam("token", "Supported token to fund the packets with (default: the deployed ConfidentialToken)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    let rows: BatchManifestRow[];
+    try {
+      rows = parseBatchManifest(fs.readFileSync(taskArgs.input, "utf8"));
+    } catch (error) {
+      throw new TaskError("INVALID_ARGUMENT", `Invalid manifest ${taskArgs.input}: ${describeError(error)}`);
+    }
+
+    // Initialize FHEVM CLI API
+    await hre.fhevm.initializeCLIApi();
+
+    const { client, signer } = await connectClient(hre, taskArgs, log, taskArgs.token);
+    const tokenAddress = await client.token.getAddress();
+    log("Creating red packets for:", signer.address);
+    log(`Token Contract: ${tokenAddress}`);
+
+    // Every row is checked before anything is sent
+    const { packets, errors } = validateBatchManifest(rows, await latestTimestamp(hre));
+    for (const { row, message } of errors) {
+      log(`❌ Row ${row}: ${message}`);
+    }
+    if (errors.length > 0) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        `${errors.length} problem(s) in ${taskArgs.input}, nothing was sent: ` +
+          errors.map(({ row, message }) => `row ${row}: ${message}`).join("; "),
+      );
+    }
+    if (packets.length === 0) {
+      throw new TaskError("INVALID_ARGUMENT", `${taskArgs.input} has no rows`);
+    }
+
+    const totalAmount = packets.reduce((total, packet) => total + BigInt(packet.amount), 0n);
+    const balance = await checkFunding(client, signer, totalAmount);
+    log(`✅ ${packets.length} red packets validated, ${totalAmount} tokens in total (balance: ${balance})`);
+
+    if (taskArgs.dryRun) {
+      return { dryRun: true, redPackets: packets.length, totalAmount: totalAmount.toString() };
+    }
+
+    const results = (await client.createPackets(packets)).map((result, index) => {
+      const row = index + 1;
+      if ("error" in result) {
+        const { code, message } = toTaskError(result.error);
+        log(`❌ Row ${row}: ${message} (${code})`);
+        return { row, message: packets[index].message, txHash: result.txHash ?? null, error: { code, message } };
       }
+
+      log(`📦 Row ${row}: Red Packet #${result.redPacketId} (${result.txHash})`);
+      return { row, message: packets[index].message, redPacketId: Number(result.redPacketId), txHash: result.txHash };
     });
+    fs.writeFileSync(taskArgs.output, JSON.stringify(results, null, 2) + "\n");
+    log(`📝 Results written to ${taskArgs.output}`);
 
-    if (event) {
-      const parsed = redPacket.interface.parseLog(event);
-      const redPacketId = parsed?.args[0];
-      console.log(`📦 Red Packet ID: ${redPacketId}`);
+    const failed = results.filter((result) => "error" in result).length;
+    if (failed > 0) {
+      throw new TaskError("BATCH_FAILED", `${failed} of ${results.length} red packets failed, see ${taskArgs.output}`);
     }
-  });
+    return { output: taskArgs.output, totalAmount: totalAmount.toString(), results };
+  }));
+
+/**
+ * Task: Airdrop tokens to a list of recipients
+ */
+rpTask("task:rp:airdrop", "Pay tokens directly to a list of recipients, split equally or randomly")
+  .addParam("recipients", "File with the recipient addresses (one per line, or a JSON array)")
+  .addParam("amount", "Total amount to share between all recipients")
+  .addOptionalParam("type", "Split (0=Equal, 1=Random)", "0")
+  .addOptionalParam("message", "Message recorded with the airdrop", "")
+  .addOptionalParam("chunkSize", "Recipients per transaction of an equal airdrop (default: the most that fit, 10)")
+  .addOptionalParam("output", "Where to write the per-chunk results", "airdrop-results.json")
+  .addFlag("dryRun", "Only validate the recipients and the balance, send nothing")
+  .addOptionalParam("token", "Supported token to pay with (default: the deployed ConfidentialToken)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const packetType = parseIntArg("type", taskArgs.type) as RedPacketType;
+    if (!(packetType in RedPacketType)) {
+      throw new TaskError("INVALID_ARGUMENT", `--type must be 0 (Equal) or 1 (Random), got ${packetType}`);
+    }
+    const amount = parseAmountArg("amount", taskArgs.amount);
+    const chunkSize = taskArgs.chunkSize === undefined ? undefined : parseIntArg("chunk-size", taskArgs.chunkSize);
+
+    let chunks: AirdropChunk[];
+    try {
+      const addresses = parseAddressList(fs.readFileSync(taskArgs.recipients, "utf8"));
+      chunks = splitAirdrop(amount, addresses, packetType, chunkSize);
+    } catch (error) {
+      throw new TaskError("INVALID_ARGUMENT", `Invalid airdrop: ${describeError(error)}`);
+    }
+    const recipients = chunks.reduce((total, chunk) => total + chunk.recipients.length, 0);
+
+    // Initialize FHEVM CLI API
+    await hre.fhevm.initializeCLIApi();
+
+    const { client, signer } = await connectClient(hre, taskArgs, log, taskArgs.token);
+    log("Airdropping for:", signer.address);
+    log(`Token Contract: ${await client.token.getAddress()}`);
+
+    const balance = await checkFunding(client, signer, amount);
+    log(`✅ ${amount} tokens to ${recipients} recipients in ${chunks.length} transaction(s) (balance: ${balance})`);
+
+    if (taskArgs.dryRun) {
+      return { dryRun: true, recipients, chunks: chunks.length, totalAmount: amount.toString() };
+    }
+
+    // Chunks are independent airdrops: a failed one is reported and the others still go out
+    const results: TaskResult[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      const base = { chunk: index + 1, amount: chunk.amount.toString(), recipients: chunk.recipients };
+      try {
+        const { redPacketId, txHash } = await client.airdrop({ packetType, message: taskArgs.message, ...chunk });
+        log(`🪂 Chunk ${index + 1}/${chunks.length}: ${chunk.recipients.length} recipient(s) paid, ` +
+          `Red Packet #${redPacketId} (${txHash})`);
+        results.push({ ...base, redPacketId: Number(redPacketId), txHash });
+      } catch (error) {
+        const { code, message } = toTaskError(error);
+        log(`❌ Chunk ${index + 1}/${chunks.length}: ${message} (${code})`);
+        results.push({ ...base, error: { code, message } });
+      }
+    }
+    fs.writeFileSync(taskArgs.output, JSON.stringify(results, null, 2) + "\n");
+    log(`📝 Results written to ${taskArgs.output}`);
+
+    const failed = results.filter((result) => "error" in result).length;
+    if (failed > 0) {
+      throw new TaskError("BATCH_FAILED", `${failed} of ${results.length} chunks failed, see ${taskArgs.output}`);
+    }
+    return { output: taskArgs.output, totalAmount: amount.toString(), recipients, results };
+  }));
 
 /**
  * Task: View red packet information
  */
-task("task:rp:view-redpacket", "View red packet information")
+rpTask("task:rp:view-redpacket", "View red packet information")
   .addParam("id", "Red packet ID")
-  .setAction(async (taskArgs: TaskArguments, { ethers, deployments, fhevm: _fhevm }) => {
-    const redPacketDeployment = await deployments.get("RedPacket");
-    console.log(`RedPacket Contract: ${redPacketDeployment.address}`);
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const { ethers } = hre;
+    const redPacketId = parseIntArg("id", taskArgs.id);
+    const { client } = await connectClient(hre, taskArgs, log);
 
-    const redPacket = await ethers.getContractAt("RedPacket", redPacketDeployment.address);
-    const redPacketId = parseInt(taskArgs.id);
+    // Read from the contract: a packet created in the last few blocks is not indexed yet
+    const packet = await client.getPacket(redPacketId);
+    if (!packet) {
+      throw new TaskError("NOT_FOUND", "Red packet not found");
+    }
+    const claims = Number(packet.totalCount - packet.remainingCount);
 
-    try {
-      const packetInfo = await redPacket.getRedPacket(redPacketId);
-      
-      if (!packetInfo.exists) {
-        console.log("❌ Red packet not found");
-        return;
+    // The index only supplies the disclosed amounts, it may lag the chain by a few confirmations
+    const { indexer } = await syncIndexer(hre, client, log);
+    const disclosed = indexer.getClaims(redPacketId).filter((claim) => claim.disclosedAmount !== undefined);
+
+    log(`\n📦 Red Packet #${redPacketId}`);
+    log(`  Creator: ${packet.creator}`);
+    log(`  Token: ${packet.token}`);
+    log(`  Type: ${formatType(packet.packetType)}`);
+    log(`  Status: ${formatEffectiveStatus(getEffectiveStatus(packet), packet.isScheduled)}`);
+    log(`  Total Count: ${packet.totalCount}`);
+    log(`  Remaining: ${packet.remainingCount}`);
+    log(`  Claims: ${claims}`);
+    log(`  Created: ${formatTime(packet.createdAt)}`);
+    log(`  Starts: ${formatTime(packet.startTime)}${packet.isScheduled ? ' (scheduled)' : ''}`);
+    log(`  Expires: ${formatTime(packet.expireTime)}`);
+    log(`  Message: ${packet.message}`);
+    log(`  Allowlist: ${packet.merkleRoot === ethers.ZeroHash ? 'Open to everyone' : packet.merkleRoot}`);
+    log(`  Password: ${packet.passwordSigner === ethers.ZeroAddress ? 'None' : 'Required'}`);
+    log(`  Vouchers: ${packet.voucherRequired ? 'Required' : 'Not required'}`);
+    log(`  Currently Active: ${packet.isActive ? 'Yes' : 'No'}`);
+    if (disclosed.length > 0) {
+      log(`  Disclosed Amounts (${disclosed.length}/${claims}):`);
+      for (const claim of disclosed) {
+        log(`    ${claim.user}: ${claim.disclosedAmount}`);
       }
+    }
+
+    return {
+      redPacket: {
+        ...packetJson(packet),
+        claims,
+        merkleRoot: packet.merkleRoot === ethers.ZeroHash ? null : packet.merkleRoot,
+        passwordProtected: packet.passwordSigner !== ethers.ZeroAddress,
+        voucherRequired: packet.voucherRequired,
+        isActive: packet.isActive,
+        disclosedClaims: disclosed.map((claim) => ({ user: claim.user, amount: claim.disclosedAmount })),
+      },
+    };
+  }));
+
+/**
+ * Task: Claim a red packet
+ */
+rpTask("task:rp:claim-redpacket", "Claim a red packet")
+  .addParam("id", "Red packet ID")
+  .addOptionalParam("allowlist", "Allowlist JSON file, required for allowlist-restricted red packets")
+  .addOptionalParam("password", "Password, required for password-protected red packets")
+  .addOptionalParam("voucher", "Voucher JSON file from task:rp:sign-voucher, required for voucher-gated red packets")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const redPacketId = parseIntArg("id", taskArgs.id);
+    const { client, signer } = await connectClient(hre, taskArgs, log);
+    log("Claiming red packet for:", signer.address);
 
-      console.log(`\n📦 Red Packet #${redPacketId}`);
-      console.log(`  Creator: ${packetInfo.creator}`);
-      console.log(`  Type: ${Number(packetInfo.packetType) === 0 ? 'Normal' : 'Random'}`);
-      console.log(`  Status: ${Number(packetInfo.status) === 0 ? 'Active' : Number(packetInfo.status) === 1 ? 'Expired' : 'Empty'}`);
-      console.log(`  Total Count: ${packetInfo.totalCount}`);
-      console.log(`  Remaining: ${packetInfo.remainingCount}`);
-      console.log(`  Created: ${formatTime(Number(packetInfo.createdAt))}`);
-      console.log(`  Expires: ${formatTime(Number(packetInfo.expireTime))}`);
-      console.log(`  Message: ${packetInfo.message}`);
-      
-      // Check if active
-      const isActive = await redPacket.isRedPacketActive(redPacketId);
-      console.log(`  Currently Active: ${isActive ? 'Yes' : 'No'}`);
-      
+    let proof: string[] | undefined;
+    if (taskArgs.allowlist) {
+      proof = getAllowlistProof(readAllowlist(taskArgs.allowlist), signer.address);
+      if (!proof) {
+        throw new TaskError("NOT_ALLOWLISTED", "Your address is not on this allowlist");
+      }
+    }
+
+    let voucher: ClaimVoucher | undefined;
+    if (taskArgs.voucher) {
+      voucher = readVoucher(taskArgs.voucher, redPacketId, signer.address);
+      if (!voucher) {
+        throw new TaskError(
+          "INVALID_VOUCHER",
+          `No voucher for ${signer.address} on red packet #${redPacketId} in ${taskArgs.voucher}`,
+        );
+      }
+    }
+
+    let result: ClaimResult;
+    try {
+      result = await client.claim(redPacketId, { proof, password: taskArgs.password, voucher });
     } catch (error) {
-      console.log("❌ Error viewing red packet:", error);
+      throw toTaskError(error, {
+        AlreadyClaimed: "You have already claimed this red packet",
+        RedPacketExpiredError: "Red packet is not active",
+        RedPacketEmpty: "Red packet is not active",
+        RedPacketNotStarted: "Red packet has not started yet, see task:rp:view-redpacket for its start time",
+        NotAllowlisted: "Red packet is restricted to an allowlist you are not on (pass --allowlist with the packet's file)",
+        InvalidPassword: taskArgs.password ? "Wrong password" : "Red packet is password-protected, pass --password",
+        InvalidVoucher: voucher ? "Voucher is not valid" : "Red packet requires a voucher, pass --voucher",
+        VoucherExpired: "Voucher has expired, ask the creator for a new one",
+      });
     }
-  });
+    const packet = await client.getPacket(redPacketId);
+
+    log(`✅ Red packet claimed! Transaction: ${result.txHash}`);
+    log(`📦 Remaining packets: ${result.remainingCount}/${packet?.totalCount}`);
+    return {
+      redPacketId,
+      claimer: signer.address,
+      txHash: result.txHash,
+      remainingCount: Number(result.remainingCount),
+      totalCount: Number(packet?.totalCount),
+    };
+  }));
 
 /**
- * Task: Claim a red packet
+ * Task: Build a Merkle allowlist
  */
-task("task:rp:claim-redpacket", "Claim a red packet")
+rpTask("task:rp:build-allowlist", "Build a Merkle allowlist for a restricted red packet")
+  .addParam("input", "File with the allowed addresses (one per line, or a JSON array)")
+  .addOptionalParam("output", "Where to write the allowlist JSON (root and per-address proofs)", "allowlist.json")
+  .setAction(taskAction(async (taskArgs, _hre, log) => {
+    const addresses = parseAddressList(fs.readFileSync(taskArgs.input, "utf8"));
+    const allowlist = buildAllowlist(addresses);
+    const count = Object.keys(allowlist.proofs).length;
+
+    fs.writeFileSync(taskArgs.output, JSON.stringify(allowlist, null, 2) + "\n");
+
+    log(`✅ Allowlist with ${count} addresses written to ${taskArgs.output}`);
+    log(`🌳 Merkle root: ${allowlist.root}`);
+    return { output: taskArgs.output, root: allowlist.root, addresses: count };
+  }));
+
+/**
+ * Task: Sign claim vouchers
+ */
+rpTask("task:rp:sign-voucher", "Sign vouchers allowing addresses to claim a voucher-gated red packet (creator only)")
   .addParam("id", "Red packet ID")
-  .setAction(async (taskArgs: TaskArguments, { ethers, deployments, fhevm: _fhevm }) => {
-    const [deployer] = await ethers.getSigners();
-    console.log("Claiming red packet for:", deployer.address);
+  .addOptionalParam("claimer", "Address allowed to claim")
+  .addOptionalParam("claimers", "File with addresses allowed to claim (one per line, or a JSON array)")
+  .addOptionalParam("expire", "Voucher validity in hours", "24")
+  .addOptionalParam("output", "Write the vouchers to this JSON file instead of printing them")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const { ethers } = hre;
+    const redPacketId = parseIntArg("id", taskArgs.id);
+    const expireHours = parseIntArg("expire", taskArgs.expire);
+
+    const claimers = [
+      ...(taskArgs.claimer ? [parseAddressArg("claimer", taskArgs.claimer)] : []),
+      ...(taskArgs.claimers ? parseAddressList(fs.readFileSync(taskArgs.claimers, "utf8")) : []),
+    ];
+    if (claimers.length === 0) {
+      throw new TaskError("INVALID_ARGUMENT", "Pass --claimer or --claimers");
+    }
+
+    const { client, signer } = await connectClient(hre, taskArgs, log);
+    const packet = await client.getPacket(redPacketId);
+    if (!packet) {
+      throw new TaskError("NOT_FOUND", "Red packet not found");
+    }
+    if (packet.creator !== signer.address) {
+      throw new TaskError("NOT_CREATOR", `Only the creator (${packet.creator}) can sign vouchers`);
+    }
+    if (!packet.voucherRequired) {
+      log("⚠️  This red packet does not require vouchers, anyone can claim it");
+    }
 
-    const redPacketDeployment = await deployments.get("RedPacket");
-    console.log(`RedPacket Contract: ${redPacketDeployment.address}`);
+    // Deadline relative to the blockchain timestamp, like the packet expiration
+    const block = await ethers.provider.getBlock("latest");
+    const deadline = block!.timestamp + expireHours * 3600;
 
-    const redPacket = await ethers.getContractAt("RedPacket", redPacketDeployment.address);
-    const redPacketId = parseInt(taskArgs.id);
+    const vouchers: ClaimVoucher[] = [];
+    for (const claimer of claimers) {
+      vouchers.push(await client.signVoucher(redPacketId, claimer, deadline));
+    }
 
+    if (taskArgs.output) {
+      fs.writeFileSync(taskArgs.output, JSON.stringify(vouchers, null, 2) + "\n");
+      log(`✅ ${vouchers.length} voucher(s) valid until ${formatTime(deadline)} written to ${taskArgs.output}`);
+    } else {
+      log(`✅ ${vouchers.length} voucher(s) valid until ${formatTime(deadline)}:`);
+      log(JSON.stringify(vouchers, null, 2));
+    }
+    return { redPacketId, deadline, output: taskArgs.output ?? null, vouchers };
+  }));
+
+/**
+ * Task: Refund an expired red packet
+ */
+rpTask("task:rp:refund-redpacket", "Refund the unclaimed balance of an expired red packet to its creator")
+  .addParam("id", "Red packet ID")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const redPacketId = parseIntArg("id", taskArgs.id);
+    const { client, signer } = await connectClient(hre, taskArgs, log);
+    log("Refunding red packet for:", signer.address);
+
+    const packet = await client.getPacket(redPacketId);
+    if (!packet) {
+      throw new TaskError("NOT_FOUND", "Red packet not found");
+    }
+
+    let txHash: string;
+    try {
+      ({ txHash } = await client.refund(redPacketId));
+    } catch (error) {
+      throw toTaskError(error, {
+        NotRedPacketCreator: "Only the creator can refund this red packet",
+        AlreadyRefunded: "Red packet has already been refunded",
+        RedPacketNotExpired: "Red packet has not expired yet",
+        RedPacketEmpty: "Red packet is no longer active, nothing to refund",
+        RedPacketNotActive: "Red packet is no longer active, nothing to refund",
+      });
+    }
+
+    log(`✅ Red packet refunded! Transaction: ${txHash}`);
+    log(`📦 Unclaimed packets returned: ${packet.remainingCount}/${packet.totalCount}`);
+    return {
+      redPacketId,
+      txHash,
+      unclaimedCount: Number(packet.remainingCount),
+      totalCount: Number(packet.totalCount),
+    };
+  }));
+
+/**
+ * Task: Cancel an active red packet
+ */
+rpTask("task:rp:cancel-redpacket", "Cancel an active red packet and return the unclaimed balance to its creator")
+  .addParam("id", "Red packet ID")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const redPacketId = parseIntArg("id", taskArgs.id);
+    const { client, signer } = await connectClient(hre, taskArgs, log);
+    log("Cancelling red packet for:", signer.address);
+
+    const packet = await client.getPacket(redPacketId);
+    if (!packet) {
+      throw new TaskError("NOT_FOUND", "Red packet not found");
+    }
+
+    let txHash: string;
     try {
-      // Check if already claimed
-      const claimRecord = await redPacket.getClaimRecord(redPacketId, deployer.address);
-      if (claimRecord.exists) {
-        console.log("❌ You have already claimed this red packet");
-        return;
+      ({ txHash } = await client.cancel(redPacketId));
+    } catch (error) {
+      throw toTaskError(error, {
+        NotRedPacketCreator: "Only the creator can cancel this red packet",
+        RedPacketNotActive: "Red packet is not active",
+        RedPacketExpiredError: "Red packet is not active",
+      });
+    }
+
+    log(`✅ Red packet cancelled! Transaction: ${txHash}`);
+    log(`📦 Unclaimed packets returned: ${packet.remainingCount}/${packet.totalCount}`);
+    return {
+      redPacketId,
+      txHash,
+      unclaimedCount: Number(packet.remainingCount),
+      totalCount: Number(packet.totalCount),
+    };
+  }));
+
+/**
+ * Task: Finalize expired red packets
+ */
+rpTask("task:rp:sweep-expired", "Expire and refund every red packet past its expire time (anyone can run it)")
+  .addFlag("scan", "Find expired red packets by scanning the contract instead of the local event index")
+  .addOptionalParam("batchSize", "Red packets per transaction (default: RedPacket.MAX_FINALIZE_BATCH)")
+  .addFlag("dryRun", "Only list the expired red packets, send nothing")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const { client, signer } = await connectClient(hre, taskArgs, log);
+    log("Sweeping expired red packets for:", signer.address);
+
+    const maxBatchSize = Number(await client.redPacket.MAX_FINALIZE_BATCH());
+    const batchSize = taskArgs.batchSize === undefined ? maxBatchSize : parseIntArg("batch-size", taskArgs.batchSize);
+    if (batchSize < 1 || batchSize > maxBatchSize) {
+      throw new TaskError("INVALID_ARGUMENT", `--batch-size must be between 1 and ${maxBatchSize}`);
+    }
+
+    let candidates: number[];
+    if (taskArgs.scan) {
+      candidates = (await client.findExpiredPacketIds()).map(Number);
+    } else {
+      const { indexer } = await syncIndexer(hre, client, log);
+      const now = await latestTimestamp(hre);
+      candidates = indexer.listPackets()
+        .filter((packet) => isIndexedPacketExpired(packet, now))
+        .map((packet) => packet.id);
+    }
+    log(`⌛ ${candidates.length} expired red packet(s) to finalize${candidates.length ? `: ${candidates.join(', ')}` : ''}`);
+
+    if (taskArgs.dryRun || candidates.length === 0) {
+      return { dryRun: Boolean(taskArgs.dryRun), candidates, finalized: [], batches: [] };
+    }
+
+    // Batches are independent: a failed one is reported and the others still go out
+    const batches: TaskResult[] = [];
+    const finalized: number[] = [];
+    for (let start = 0; start < candidates.length; start += batchSize) {
+      const redPacketIds = candidates.slice(start, start + batchSize);
+      const batch = batches.length + 1;
+      try {
+        const result = await client.finalizeExpired(redPacketIds);
+        const expired = result.redPacketIds.map(Number);
+        finalized.push(...expired);
+        log(`🧹 Batch ${batch}: finalized ${expired.length}/${redPacketIds.length} red packet(s) (${result.txHash})`);
+        batches.push({ redPacketIds, finalized: expired, txHash: result.txHash });
+      } catch (error) {
+        const { code, message } = toTaskError(error);
+        log(`❌ Batch ${batch}: ${message} (${code})`);
+        batches.push({ redPacketIds, error: { code, message } });
       }
+    }
+
+    const failed = batches.filter((batch) => "error" in batch).length;
+    if (failed > 0) {
+      throw new TaskError("BATCH_FAILED", `${failed} of ${batches.length} batches failed`);
+    }
+    log(`✅ ${finalized.length} red packet(s) expired and refunded to their creators`);
+    return { dryRun: false, candidates, finalized, batches };
+  }));
 
-      // Check if active
-      const isActive = await redPacket.isRedPacketActive(redPacketId);
-      if (!isActive) {
-        console.log("❌ Red packet is not active");
-        return;
+/**
+ * Task: Reveal the lucky king of a random red packet
+ */
+rpTask("task:rp:reveal-lucky-king", "Reveal who got the largest share of a fully claimed random red packet")
+  .addParam("id", "Red packet ID")
+  .addOptionalParam("wait", "Seconds to wait for the decryption oracle", "120")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const redPacketId = parseIntArg("id", taskArgs.id);
+    const wait = parseIntArg("wait", taskArgs.wait);
+    const { client } = await connectClient(hre, taskArgs, log);
+
+    const { revealRequested } = await client.getLuckyKing(redPacketId);
+    let txHash: string | null = null;
+    if (!revealRequested) {
+      try {
+        ({ txHash } = await client.revealLuckyKing(redPacketId));
+      } catch (error) {
+        throw toTaskError(error, {
+          RedPacketNotFound: "Red packet not found",
+          NotRandomRedPacket: "Only random red packets have a lucky king",
+          RedPacketNotEmpty: "Red packet has not been fully claimed yet",
+        });
       }
+      log(`🔓 Reveal requested. Transaction: ${txHash}`);
+    }
 
-      // Claim red packet
-      const tx = await redPacket.claimRedPacket(redPacketId);
-      await tx.wait();
+    const luckyKing = await awaitOracle(hre, log, wait, async () => (await client.getLuckyKing(redPacketId)).luckyKing);
 
-      console.log(`✅ Red packet claimed! Transaction: ${tx.hash}`);
-      
-      // View updated info
-      const packetInfo = await redPacket.getRedPacket(redPacketId);
-      console.log(`📦 Remaining packets: ${packetInfo.remainingCount}/${packetInfo.totalCount}`);
-      
-    } catch (error) {
-      console.log("❌ Error claiming red packet:", error);
+    log(`👑 Lucky king of red packet #${redPacketId}: ${luckyKing}`);
+    return { redPacketId, luckyKing, txHash };
+  }));
+
+/**
+ * Task: Disclose a claimed amount
+ */
+rpTask("task:rp:disclose-claim", "Publicly disclose the amount you received from a red packet")
+  .addParam("id", "Red packet ID")
+  .addOptionalParam("wait", "Seconds to wait for the decryption oracle", "120")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const redPacketId = parseIntArg("id", taskArgs.id);
+    const wait = parseIntArg("wait", taskArgs.wait);
+    const { client, signer } = await connectClient(hre, taskArgs, log);
+    log("Disclosing claimed amount of:", signer.address);
+
+    const claim = await client.getClaim(redPacketId);
+    if (!claim) {
+      throw new TaskError("NOT_FOUND", "No claim record found for this red packet");
     }
-  });
+
+    let txHash: string | null = null;
+    if (!claim.disclosureRequested) {
+      try {
+        ({ txHash } = await client.discloseClaim(redPacketId));
+      } catch (error) {
+        throw toTaskError(error, {
+          ClaimNotFound: "No claim record found for this red packet",
+        });
+      }
+      log(`🔓 Disclosure requested. Transaction: ${txHash}`);
+    }
+
+    const amount = await awaitOracle(hre, log, wait, async () => (await client.getClaim(redPacketId))?.disclosedAmount);
+
+    log(`📣 Amount received from red packet #${redPacketId}, now public: ${amount}`);
+    return { redPacketId, user: signer.address, amount, txHash };
+  }));
 
 /**
  * Task: View claim record
  */
-task("task:rp:view-claim", "View claim record for a red packet")
+rpTask("task:rp:view-claim", "View claim record for a red packet")
   .addParam("id", "Red packet ID")
-  .setAction(async (taskArgs: TaskArguments, { ethers, deployments, fhevm: _fhevm }) => {
-    const [deployer] = await ethers.getSigners();
-    const redPacketDeployment = await deployments.get("RedPacket");
-    console.log(`RedPacket Contract: ${redPacketDeployment.address}`);
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const redPacketId = parseIntArg("id", taskArgs.id);
+
+    // Initialize FHEVM CLI API
+    await hre.fhevm.initializeCLIApi();
 
-    const redPacket = await ethers.getContractAt("RedPacket", redPacketDeployment.address);
-    const redPacketId = parseInt(taskArgs.id);
+    const { client } = await connectClient(hre, taskArgs, log);
+    const claim = await client.getClaim(redPacketId);
+    if (!claim) {
+      throw new TaskError("NOT_FOUND", "No claim record found for this red packet");
+    }
 
-    try {
-      const claimRecord = await redPacket.getClaimRecord(redPacketId, deployer.address);
-      
-      if (!claimRecord.exists) {
-        console.log("❌ No claim record found for this red packet");
-        return;
-      }
+    log(`\n🎁 Claim Record for Red Packet #${redPacketId}`);
+    log(`  User: ${claim.user}`);
+    log(`  Claimed at: ${formatTime(claim.timestamp)}`);
+    log(`  Disclosed: ${claim.disclosedAmount !== undefined
+      ? `Yes, ${claim.disclosedAmount} is public`
+      : claim.disclosureRequested ? 'Waiting for the decryption oracle' : 'No'}`);
 
-      console.log(`\n🎁 Claim Record for Red Packet #${redPacketId}`);
-      console.log(`  User: ${claimRecord.user}`);
-      console.log(`  Claimed at: ${formatTime(Number(claimRecord.timestamp))}`);
-      console.log(`  Amount: [Encrypted]`);
-      
+    // Decrypt the claimed amount (the claimer is granted ACL access on claim)
+    let amount: bigint;
+    try {
+      amount = await client.decrypt(claim.encryptedAmount, await client.redPacket.getAddress());
     } catch (error) {
-      console.log("❌ Error viewing claim record:", error);
+      if (error instanceof DecryptionPermissionError) {
+        throw toTaskError(error);
+      }
+      throw new TaskError("DECRYPTION_FAILED", `Could not decrypt claimed amount: ${describeError(error)}`, { cause: error });
     }
-  });
+    log(`  Amount: ${amount}`);
+
+    return {
+      redPacketId,
+      user: claim.user,
+      timestamp: Number(claim.timestamp),
+      encryptedAmount: claim.encryptedAmount,
+      amount: amount.toString(),
+      disclosureRequested: claim.disclosureRequested,
+      disclosedAmount: claim.disclosedAmount ?? null,
+    };
+  }));
 
 /**
  * Task: View token balance
  */
-task("task:rp:view-balance", "View confidential token balance")
-  .setAction(async (taskArgs: TaskArguments, { ethers, deployments, fhevm: _fhevm }) => {
-    const [deployer] = await ethers.getSigners();
-    console.log("Checking balance for:", deployer.address);
+rpTask("task:rp:view-balance", "View and decrypt confidential token balance")
+  .addFlag("totalSupply", "Also decrypt the total supply (token owner only)")
+  .addOptionalParam("token", "Token to check (default: the deployed ConfidentialToken)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    // Initialize FHEVM CLI API
+    await hre.fhevm.initializeCLIApi();
 
-    const tokenDeployment = await deployments.get("ConfidentialToken");
-    console.log(`Token Contract: ${tokenDeployment.address}`);
+    const { client, signer } = await connectClient(hre, taskArgs, log, taskArgs.token);
+    const { token } = client;
+    const tokenAddress = await token.getAddress();
+    log("Checking balance for:", signer.address);
+    log(`Token Contract: ${tokenAddress}`);
 
-    const token = await ethers.getContractAt("ConfidentialToken", tokenDeployment.address);
-    
-    try {
-      const balance = await token.confidentialBalanceOf(deployer.address);
-      console.log(`💰 Confidential Balance: [Encrypted]`);
-      console.log(`   Handle: ${balance}`);
-      
-    } catch (error) {
-      console.log("❌ Error viewing balance:", error);
+    const balance = await token.confidentialBalanceOf(signer.address);
+    const clearBalance = await client.decrypt(balance, tokenAddress);
+    log(`💰 Confidential Balance: ${clearBalance}`);
+    log(`   Handle: ${balance}`);
+
+    const result: TaskResult = { account: signer.address, token: tokenAddress, balance: clearBalance.toString() };
+    if (taskArgs.totalSupply) {
+      // The token grants the owner ACL access to the total supply on every update
+      const owner = await token.owner();
+      if (owner !== signer.address) {
+        throw new TaskError("NOT_OWNER", `Only the token owner (${owner}) can decrypt the total supply`);
+      }
+
+      const totalSupply = await token.confidentialTotalSupply();
+      const clearTotalSupply = await client.decrypt(totalSupply, tokenAddress);
+      log(`🏦 Confidential Total Supply: ${clearTotalSupply}`);
+      log(`   Handle: ${totalSupply}`);
+      result.totalSupply = clearTotalSupply.toString();
     }
-  });
+    return result;
+  }));
 
 /**
  * Task: List all red packets
  */
-task("task:rp:list-redpackets", "List all red packets")
-  .setAction(async (taskArgs: TaskArguments, { ethers, deployments, fhevm: _fhevm }) => {
-    const redPacketDeployment = await deployments.get("RedPacket");
-    console.log(`RedPacket Contract: ${redPacketDeployment.address}`);
+rpTask("task:rp:list-redpackets", "List red packets, one page at a time")
+  .addOptionalParam("creator", "Only list red packets created by this address")
+  .addOptionalParam("status", "Only list red packets in this status (active, expired, empty, cancelled)")
+  .addOptionalParam("token", "Only list red packets holding this token")
+  .addOptionalParam("page", "Page number, starting at 1", "1")
+  .addOptionalParam("limit", "Red packets per page", "20")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const page = parseIntArg("page", taskArgs.page);
+    const limit = parseIntArg("limit", taskArgs.limit);
+    const creator = taskArgs.creator ? parseAddressArg("creator", taskArgs.creator) : undefined;
+    const status = taskArgs.status ? parseStatus(taskArgs.status) : undefined;
+    const token = taskArgs.token ? parseAddressArg("token", taskArgs.token) : undefined;
+    if (taskArgs.status && status === undefined) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        `Unknown status "${taskArgs.status}", expected one of: ${STATUS_NAMES.join(", ")}`,
+      );
+    }
+    if (page < 1 || limit < 1) {
+      throw new TaskError("INVALID_ARGUMENT", "--page and --limit must be at least 1");
+    }
 
-    const redPacket = await ethers.getContractAt("RedPacket", redPacketDeployment.address);
+    const { client } = await connectClient(hre, taskArgs, log);
+    const packets = await client.queryPackets({ creator, status, token, offset: (page - 1) * limit, limit });
 
-    try {
-      const count = await redPacket.redPacketCount();
-      const totalCount = Number(count);
-      
-      console.log(`\n📦 Red Packets (Total: ${totalCount})`);
-      console.log("=" .repeat(50));
-      
-      if (totalCount === 0) {
-        console.log("No red packets found");
-        return;
+    // The total is only known without status and token filters, which are applied while scanning
+    const total = status !== undefined || token !== undefined
+      ? undefined
+      : creator
+        ? await client.redPacket.getCreatedRedPacketCount(creator)
+        : await client.redPacket.redPacketCount();
+    const filters = [
+      creator && `creator ${creator}`,
+      status !== undefined && `status ${formatStatus(status)}`,
+      token && `token ${token}`,
+    ].filter(Boolean);
+
+    log(`\n📦 Red Packets${filters.length ? ` (${filters.join(', ')})` : ''}`);
+    log(total === undefined
+      ? `Page ${page}`
+      : `Page ${page} of ${Math.max(1, Math.ceil(Number(total) / limit))} (Total: ${total})`);
+    log("=" .repeat(50));
+
+    if (packets.length === 0) {
+      log("No red packets found");
+    }
+
+    const statusIcons = ['🟢', '🔴', '🔵', '⚫'];
+    for (const packet of packets) {
+      // An ACTIVE packet that is no longer claimable has passed its expire time
+      const statusValue = getEffectiveStatus(packet);
+      const status = `${statusIcons[statusValue] ?? '❔'} ${formatStatus(statusValue)}`;
+
+      log(`\n#${packet.id} ${status}`);
+      log(`  Creator: ${packet.creator.slice(0, 6)}...${packet.creator.slice(-4)}`);
+      log(`  Token: ${packet.token.slice(0, 6)}...${packet.token.slice(-4)}`);
+      log(`  Type: ${formatType(packet.packetType)}`);
+      log(`  Count: ${packet.remainingCount}/${packet.totalCount}`);
+      log(`  Message: ${packet.message || 'No message'}`);
+      if (packet.isScheduled) {
+        log(`  Starts: ${formatTime(packet.startTime)}`);
+      }
+      log(`  Expires: ${formatTime(packet.expireTime)}`);
+    }
+
+    return {
+      page,
+      limit,
+      total: total === undefined ? null : Number(total),
+      redPackets: packets.map(packetJson),
+    };
+  }));
+
+/**
+ * Task: Show claim history
+ */
+rpTask("task:rp:claim-history", "Show the claims of a red packet or of a user, from the local event index")
+  .addOptionalParam("id", "Red packet ID")
+  .addOptionalParam("user", "Claimer address (defaults to the signer when --id is not given)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const redPacketId = taskArgs.id !== undefined ? parseIntArg("id", taskArgs.id) : undefined;
+    const user = taskArgs.user ? parseAddressArg("user", taskArgs.user) : undefined;
+    const { client, signer } = await connectClient(hre, taskArgs, log);
+    const { indexer } = await syncIndexer(hre, client, log);
+
+    let claims = redPacketId !== undefined
+      ? indexer.getClaims(redPacketId)
+      : indexer.getClaimsByUser(user ?? signer.address);
+    if (redPacketId !== undefined && user) {
+      claims = claims.filter((claim) => claim.user === user);
+    }
+
+    const subject = redPacketId !== undefined ? `Red Packet #${redPacketId}` : (user ?? signer.address);
+    log(`\n🧧 Claim History of ${subject} (Total: ${claims.length})`);
+    log("=".repeat(50));
+
+    if (claims.length === 0) {
+      log("No claims found");
+    }
+
+    for (const claim of claims) {
+      log(`\n#${claim.redPacketId} claimed by ${claim.user}`);
+      log(`  Time: ${formatTime(claim.timestamp)}`);
+      log(`  Remaining after claim: ${claim.remainingCount}`);
+      if (claim.disclosedAmount !== undefined) {
+        log(`  Amount: ${claim.disclosedAmount} (disclosed)`);
+      }
+      log(`  Transaction: ${claim.transactionHash}`);
+    }
+    if (claims.length > 0) {
+      log("\nAmounts are encrypted unless disclosed, claimers can decrypt theirs with task:rp:view-claim");
+      log("or make them public with task:rp:disclose-claim");
+    }
+
+    return { claims };
+  }));
+
+/**
+ * Task: Creator report
+ */
+rpTask("task:rp:creator-report", "Decrypt the claimed and remaining amounts of your red packets and list their claimers")
+  .addOptionalParam("id", "Red packet ID (default: every red packet created by the signer)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const redPacketId = taskArgs.id !== undefined ? parseIntArg("id", taskArgs.id) : undefined;
+
+    // Initialize FHEVM CLI API
+    await hre.fhevm.initializeCLIApi();
+
+    const { client, signer } = await connectClient(hre, taskArgs, log);
+    const { indexer } = await syncIndexer(hre, client, log);
+
+    let packets = indexer.listPackets().filter((packet) => packet.creator === signer.address);
+    if (redPacketId !== undefined) {
+      const packet = indexer.getPacket(redPacketId);
+      if (!packet) {
+        throw new TaskError("NOT_FOUND", "Red packet not found");
       }
+      if (packet.creator !== signer.address) {
+        throw new TaskError("NOT_CREATOR", `Only the creator (${packet.creator}) can decrypt this report`);
+      }
+      packets = [packet];
+    }
+
+    log(`\n📊 Creator Report of ${signer.address} (${packets.length} red packets)`);
+    log("=".repeat(50));
+    if (packets.length === 0) {
+      log("No red packets found");
+    }
+
+    const now = await latestTimestamp(hre);
+    const reports: TaskResult[] = [];
+    for (const packet of packets) {
+      const { totalAmount, claimedAmount, remainingAmount } = await client.decryptCreatorStats(packet.id);
+      // Whatever is neither claimed nor still held went back to the creator on refund or cancellation
+      const refundedAmount = totalAmount - claimedAmount - remainingAmount;
+      const claims = indexer.getClaims(packet.id);
+      const isActive = isIndexedPacketActive(packet, now);
+      const isScheduled = packet.status === RedPacketStatus.ACTIVE && now < packet.startTime;
+      const effectiveStatus = { status: packet.status, isActive, isScheduled };
+      const status = formatStatus(getEffectiveStatus(effectiveStatus));
 
-      for (let i = 0; i < totalCount; i++) {
-        try {
-          const packetInfo = await redPacket.getRedPacket(i);
-          
-          if (packetInfo.exists) {
-            const isActive = await redPacket.isRedPacketActive(i);
-            const status = isActive ? '🟢 Active' : 
-                          Number(packetInfo.status) === 1 ? '🔴 Expired' : '🔵 Empty';
-            
-            console.log(`\n#${i} ${status}`);
-            console.log(`  Creator: ${packetInfo.creator.slice(0, 6)}...${packetInfo.creator.slice(-4)}`);
-            console.log(`  Type: ${Number(packetInfo.packetType) === 0 ? 'Normal' : 'Random'}`);
-            console.log(`  Count: ${packetInfo.remainingCount}/${packetInfo.totalCount}`);
-            console.log(`  Message: ${packetInfo.message || 'No message'}`);
-            console.log(`  Expires: ${formatTime(Number(packetInfo.expireTime))}`);
-          }
-        } catch {
-          console.log(`#${i} ❌ Error loading`);
-        }
+      log(`\n#${packet.id} ${formatType(packet.packetType)}, ${status} - "${packet.message}"`);
+      log(`  Claims: ${claims.length}/${packet.totalCount}`);
+      log(`  Total: ${totalAmount}`);
+      log(`  Claimed: ${claimedAmount}`);
+      log(`  Remaining: ${remainingAmount}`);
+      if (refundedAmount > 0n) {
+        log(`  Refunded: ${refundedAmount}`);
+      }
+      for (const claim of claims) {
+        log(`    ${formatTime(claim.timestamp)}  ${claim.user}`);
       }
-      
+
+      reports.push({
+        id: packet.id,
+        type: RedPacketType[packet.packetType],
+        status: getStatusName(effectiveStatus),
+        isScheduled,
+        totalCount: packet.totalCount,
+        totalAmount,
+        claimedAmount,
+        remainingAmount,
+        refundedAmount,
+        claims: claims.map((claim) => ({
+          user: claim.user,
+          timestamp: claim.timestamp,
+          transactionHash: claim.transactionHash,
+        })),
+      });
+    }
+
+    return { creator: signer.address, redPackets: reports };
+  }));
+
+/**
+ * Task: Sync the local event index
+ */
+rpTask("task:rp:index", "Sync the local red packet event index")
+  .addFlag("reset", "Delete the index and rebuild it from the deployment block")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const { client } = await connectClient(hre, taskArgs, log);
+
+    const { indexer, sync } = await syncIndexer(hre, client, log, taskArgs.reset);
+    const packets = indexer.listPackets().length;
+    log(`✅ Index up to date at block ${indexer.checkpoint}: ${packets} red packets`);
+
+    return {
+      checkpoint: indexer.checkpoint ?? null,
+      redPackets: packets,
+      newEvents: sync.newEvents,
+      rolledBackTo: sync.rolledBackTo ?? null,
+    };
+  }));
+
+/**
+ * Task: Watch red packet events
+ */
+rpTask("task:rp:watch", "Watch new red packets, claims and expiries as they happen")
+  .addOptionalParam("creator", "Only report red packets created by this address")
+  .addOptionalParam("id", "Only report events of this red packet")
+  .addOptionalParam("fromBlock", "First block to report, e.g. to resume after a restart (default: the next block)")
+  .addOptionalParam("interval", "Seconds between polls", "4")
+  .addOptionalParam("retries", "Failed polls in a row to retry, with growing delays, before giving up", "5")
+  .addFlag("ndjson", "Print one JSON object per event and line instead of text (implied by --json)")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const { ethers, deployments } = hre;
+    const pollInterval = parseSecondsArg("interval", taskArgs.interval);
+    const maxRetries = parseIntArg("retries", taskArgs.retries);
+    // Events go to stdout, status messages to stderr when --ndjson or --json is set
+    const ndjson = taskArgs.ndjson || taskArgs.json;
+    const status = ndjson ? console.error : log;
+
+    const deployment = await deployments.get("RedPacket");
+    const redPacket = await ethers.getContractAt("RedPacket", deployment.address);
+    const watcher = new RedPacketWatcher(redPacket, {
+      fromBlock: taskArgs.fromBlock === undefined ? undefined : parseIntArg("from-block", taskArgs.fromBlock),
+      redPacketId: taskArgs.id === undefined ? undefined : parseIntArg("id", taskArgs.id),
+      creator: taskArgs.creator ? parseAddressArg("creator", taskArgs.creator) : undefined,
+    });
+
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    status(`👀 Watching RedPacket ${deployment.address} (Ctrl+C to stop)`);
+
+    try {
+      await watcher.watch(
+        (event) => console.log(
+          ndjson ? JSON.stringify(event) : `[block ${event.blockNumber}] ${formatWatchedEvent(event)}`,
+        ),
+        {
+          pollInterval,
+          signal: controller.signal,
+          maxRetries,
+          onRetry: (error, delay) => status(`⚠️  Poll failed (${describeError(error)}), retrying in ${delay / 1000}s`),
+        },
+      );
     } catch (error) {
-      console.log("❌ Error listing red packets:", error);
+      if (error instanceof WatcherStoppedError) {
+        const resume = error.nextBlock === undefined ? "" : `, resume with --from-block ${error.nextBlock}`;
+        throw new TaskError(
+          "UNEXPECTED_ERROR",
+          `${error.message}: ${describeError(error.cause)}${resume}`,
+          { cause: error },
+        );
+      }
+      throw error;
     }
-  });
+
+    if (watcher.nextBlock !== undefined) {
+      status(`⏹️  Stopped. Resume with --from-block ${watcher.nextBlock}`);
+    }
+    return { nextBlock: watcher.nextBlock ?? null };
+  }));
+
+/**
+ * Task: List supported tokens
+ */
+rpTask("task:rp:list-tokens", "List the tokens red packets can be created with")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const { client } = await connectClient(hre, taskArgs, log);
+
+    const tokens: TaskResult[] = [];
+    for (const address of await client.getSupportedTokens()) {
+      const token = await hre.ethers.getContractAt("IERC7984", address);
+      tokens.push({ address, symbol: await token.symbol(), name: await token.name() });
+    }
+
+    log(`\n🪙 Supported Tokens (${tokens.length})`);
+    for (const { address, symbol, name } of tokens) {
+      log(`  ${address} ${symbol} (${name})`);
+    }
+    return { tokens };
+  }));
+
+/**
+ * Task: Add a supported token
+ */
+rpTask("task:rp:add-token", "Allow red packets to be created with an ERC-7984 token (RedPacket owner only)")
+  .addParam("token", "ERC-7984 token address")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const token = parseAddressArg("token", taskArgs.token);
+    const { client } = await connectClient(hre, taskArgs, log);
+
+    const { txHash } = await client.addToken(token);
+    log(`✅ Token ${token} added. Transaction: ${txHash}`);
+    return { token, txHash };
+  }));
+
+/**
+ * Task: Remove a supported token
+ */
+rpTask("task:rp:remove-token", "Stop red packets from being created with a token (RedPacket owner only)")
+  .addParam("token", "ERC-7984 token address")
+  .setAction(taskAction(async (taskArgs, hre, log) => {
+    const token = parseAddressArg("token", taskArgs.token);
+    const { client } = await connectClient(hre, taskArgs, log);
+
+    const { txHash } = await client.removeToken(token);
+    log(`✅ Token ${token} removed, existing red packets keep paying out in it. Transaction: ${txHash}`);
+    return { token, txHash };
+  }));
@@ -0,0 +1,157 @@
+import type { ConfigurableTaskDefinition, HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { task } from "hardhat/config";
+
+import { DecryptionPermissionError, RedPacketErrorName, isRedPacketError } from "../src";
+
+/**
+ * Output and exit codes of the task:rp:* tasks.
+ *
+ * Every task takes `--json`. Without it, tasks print human-readable lines; with it, those lines go
+ * to stderr and stdout carries exactly one JSON object:
+ *
+ *   { "ok": true, ...result }
+ *   { "ok": false, "error": { "code": "ALREADY_CLAIMED", "message": "..." } }
+ *
+ * Either way a failed task exits with code 1. Error codes are stable, scripts can rely on them.
+ */
+
+export type TaskErrorCode =
+  | "INVALID_ARGUMENT"
+  | "NOT_FOUND"
+  | "NOT_CREATOR"
+  | "NOT_OWNER"
+  | "NOT_ACTIVE"
+  | "NOT_EXPIRED"
+  | "NOT_STARTED"
+  | "NOT_EMPTY"
+  | "ALREADY_CLAIMED"
+  | "ALREADY_REFUNDED"
+  | "ALREADY_REQUESTED"
+  | "NOT_ALLOWLISTED"
+  | "INVALID_PASSWORD"
+  | "INVALID_VOUCHER"
+  | "VOUCHER_EXPIRED"
+  | "UNSUPPORTED_TOKEN"
+  | "TOKEN_ALREADY_SUPPORTED"
+  | "DECRYPTION_NOT_ALLOWED"
+  | "DECRYPTION_FAILED"
+  | "OPERATOR_NOT_APPROVED"
+  | "INSUFFICIENT_BALANCE"
+  | "BATCH_FAILED"
+  | "TIMEOUT"
+  | "UNEXPECTED_ERROR";
+
+// Exhaustive on purpose: a new contract error does not compile until it has a code
+const CONTRACT_ERROR_CODES: Record<RedPacketErrorName, TaskErrorCode> = {
+  RedPacketNotFound: "NOT_FOUND",
+  RedPacketExpiredError: "NOT_ACTIVE",
+  RedPacketEmpty: "NOT_ACTIVE",
+  AlreadyClaimed: "ALREADY_CLAIMED",
+  InvalidCount: "INVALID_ARGUMENT",
+  InvalidExpireTime: "INVALID_ARGUMENT",
+  InvalidStartTime: "INVALID_ARGUMENT",
+  InvalidTokenAddress: "INVALID_ARGUMENT",
+  NotRedPacketCreator: "NOT_CREATOR",
+  RedPacketNotExpired: "NOT_EXPIRED",
+  RedPacketNotStarted: "NOT_STARTED",
+  AlreadyRefunded: "ALREADY_REFUNDED",
+  RedPacketNotActive: "NOT_ACTIVE",
+  NotAllowlisted: "NOT_ALLOWLISTED",
+  InvalidPassword: "INVALID_PASSWORD",
+  InvalidVoucher: "INVALID_VOUCHER",
+  VoucherExpired: "VOUCHER_EXPIRED",
+  UnsupportedToken: "UNSUPPORTED_TOKEN",
+  TokenAlreadySupported: "TOKEN_ALREADY_SUPPORTED",
+  InvalidRecipient: "INVALID_ARGUMENT",
+  NotRandomRedPacket: "INVALID_ARGUMENT",
+  RedPacketNotEmpty: "NOT_EMPTY",
+  LuckyKingAlreadyRequested: "ALREADY_REQUESTED",
+  ClaimNotFound: "NOT_FOUND",
+  DisclosureAlreadyRequested: "ALREADY_REQUESTED",
+  DecryptionRequestNotPending: "UNEXPECTED_ERROR",
+  OwnableUnauthorizedAccount: "NOT_OWNER",
+};
+
+/**
+ * A task failure with a stable error code.
+ */
+export class TaskError extends Error {
+  constructor(
+    readonly code: TaskErrorCode,
+    message: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "TaskError";
+  }
+}
+
+/**
+ * Convert any error into a TaskError, with friendlier messages for some RedPacket custom errors.
+ */
+export function toTaskError(error: unknown, messages: Partial<Record<RedPacketErrorName, string>> = {}): TaskError {
+  if (error instanceof TaskError) {
+    return error;
+  }
+  if (isRedPacketError(error)) {
+    const code = CONTRACT_ERROR_CODES[error.errorName];
+    return new TaskError(code, messages[error.errorName] ?? error.message, { cause: error });
+  }
+  if (error instanceof DecryptionPermissionError) {
+    return new TaskError("DECRYPTION_NOT_ALLOWED", error.message, { cause: error });
+  }
+  return new TaskError("UNEXPECTED_ERROR", error instanceof Error ? error.message : String(error), { cause: error });
+}
+
+/** Prints a human-readable line: to stdout, or to stderr in --json mode */
+export type TaskLogger = (...args: unknown[]) => void;
+
+/** Fields of the JSON object printed in --json mode */
+export type TaskResult = Record<string, unknown>;
+
+export type RpTaskAction = (
+  taskArgs: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+  log: TaskLogger,
+) => Promise<TaskResult | void>;
+
+// Numbers above 2^53 (amounts, balances) are better passed around as strings anyway
+function replaceBigInt(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+/**
+ * Define a task:rp:* task taking the `--json` flag and the signer options read by `resolveSigner`.
+ */
+export function rpTask(name: string, description: string): ConfigurableTaskDefinition {
+  return task(name, description)
+    .addFlag("json", "Print one JSON object with the result instead of text")
+    .addOptionalParam("signer", "Account to act as: index or address of a network account (default: 0)")
+    .addOptionalParam("privateKey", "Act as the account of this private key")
+    .addOptionalParam("keystore", "Act as the account of this JSON keystore (password: KEYSTORE_PASSWORD hardhat var)");
+}
+
+/**
+ * Wrap a task action: print its result in --json mode, and report failures with an error code and exit code 1.
+ */
+export function taskAction(action: RpTaskAction) {
+  return async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment): Promise<void> => {
+    const json = Boolean(taskArgs.json);
+    const log: TaskLogger = json ? console.error : console.log;
+
+    try {
+      const result = (await action(taskArgs, hre, log)) ?? {};
+      if (json) {
+        console.log(JSON.stringify({ ok: true, ...result }, replaceBigInt));
+      }
+    } catch (error) {
+      const { code, message } = toTaskError(error);
+      if (json) {
+        console.log(JSON.stringify({ ok: false, error: { code, message } }));
+      } else {
+        console.log(`❌ ${message} (${code})`);
+      }
+      process.exitCode = 1;
+    }
+  };
+}
@@ -0,0 +1,72 @@
+import type { Signer } from "ethers";
+import * as fs from "fs";
+import { vars } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { TaskError } from "./output";
+
+/**
+ * Account the task:rp:* tasks act as.
+ *
+ * By default the first account of the network. Every task takes one of:
+ *
+ *   --signer <index|address>   another account of the network (e.g. 1 for the second hardhat account)
+ *   --private-key <key>        a raw private key
+ *   --keystore <file>          an encrypted JSON keystore, unlocked with the KEYSTORE_PASSWORD hardhat var
+ */
+export type TaskSigner = Signer & { readonly address: string };
+
+/**
+ * Resolve the signer selected by the `--signer`, `--private-key` and `--keystore` task options.
+ */
+export async function resolveSigner(hre: HardhatRuntimeEnvironment, taskArgs: TaskArguments): Promise<TaskSigner> {
+  const { ethers } = hre;
+  const { signer, privateKey, keystore } = taskArgs;
+
+  if ([signer, privateKey, keystore].filter((option) => option !== undefined).length > 1) {
+    throw new TaskError("INVALID_ARGUMENT", "Pass only one of --signer, --private-key and --keystore");
+  }
+
+  if (privateKey !== undefined) {
+    try {
+      return new ethers.Wallet(privateKey, ethers.provider);
+    } catch (error) {
+      throw new TaskError("INVALID_ARGUMENT", "--private-key is not a valid private key", { cause: error });
+    }
+  }
+
+  if (keystore !== undefined) {
+    if (!vars.has("KEYSTORE_PASSWORD")) {
+      throw new TaskError(
+        "INVALID_ARGUMENT",
+        "Set the keystore password with `npx hardhat vars set KEYSTORE_PASSWORD` (or HARDHAT_VAR_KEYSTORE_PASSWORD)",
+      );
+    }
+    try {
+      const wallet = await ethers.Wallet.fromEncryptedJson(
+        fs.readFileSync(keystore, "utf8"),
+        vars.get("KEYSTORE_PASSWORD"),
+      );
+      return wallet.connect(ethers.provider);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new TaskError("INVALID_ARGUMENT", `Could not unlock keystore ${keystore}: ${reason}`, { cause: error });
+    }
+  }
+
+  const signers = await ethers.getSigners();
+  if (signer === undefined) {
+    return signers[0];
+  }
+
+  const selected = /^\d+$/.test(signer)
+    ? signers[parseInt(signer)]
+    : signers.find((account) => account.address.toLowerCase() === String(signer).toLowerCase());
+  if (!selected) {
+    throw new TaskError(
+      "INVALID_ARGUMENT",
+      `--signer ${signer} is not one of the ${signers.length} accounts of network ${hre.network.name}`,
+    );
+  }
+  return selected;
+}
@@ -1,6 +1,19 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm, network } from "hardhat";
-import { RedPacket, RedPacket__factory } from "../types";
+import {
+  Allowlist,
+  DecryptionPermissionError,
+  MAX_AIRDROP_CHUNK_SIZE,
+  RedPacketClient,
+  RedPacketType,
+  buildAllowlist,
+  encodeCreatePacketData,
+  getAllowlistProof,
+  getPasswordSigner,
+  signClaimVoucher,
+  signPasswordClaim,
+} from "../src";
+import { ConfidentialToken, RedPacket, RedPacket__factory } from "../types";
 import { expect } from "chai";
 
 // Helper function to increase time
@@ -15,6 +28,20 @@ async function getExpireTime(hoursFromNow: number): Promise<number> {
   return currentTime + hoursFromNow * 3600;
 }
 
+// Helper function to send the transaction that emitted `event` again, e.g. to replay a decryption oracle callback
+async function replayTransaction(event: { transactionHash: string }, sender: HardhatEthersSigner) {
+  const tx = await ethers.provider.getTransaction(event.transactionHash);
+  return sender.sendTransaction({ to: tx!.to, data: tx!.data });
+}
+
+// Claim restrictions of a red packet anyone can claim
+const NO_RESTRICTIONS = {
+  merkleRoot: ethers.ZeroHash,
+  passwordSigner: ethers.ZeroAddress,
+  passwordSalt: ethers.ZeroHash,
+  voucherRequired: false,
+};
+
 type Signers = {
   deployer: HardhatEthersSigner;
   alice: HardhatEthersSigner;
@@ -46,8 +73,19 @@ describe("RedPacket", function () {
   let signers: Signers;
   let redPacket: RedPacket;
   let redPacketAddress: string;
-  let token: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+  let token: ConfidentialToken;
   let tokenAddress: string;
+  let client: RedPacketClient;
+
+  // Helper function to act as another signer through the client
+  function clientFor(signer: HardhatEthersSigner): RedPacketClient {
+    return client.withSigner(signer);
+  }
+
+  // Helper function to decrypt a claimer's share of a red packet
+  async function decryptClaimAmount(redPacketId: number, claimer: HardhatEthersSigner): Promise<bigint> {
+    return (await clientFor(claimer).decryptClaim(redPacketId))!;
+  }
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
@@ -60,6 +98,7 @@ describe("RedPacket", function () {
     redPacketAddress = fixture.redPacketAddress;
     token = fixture.token;
     tokenAddress = fixture.tokenAddress;
+    client = new RedPacketClient(redPacket, token, signers.deployer, fhevm);
 
     // Mint tokens to all signers
     const mintAmount = 1000000;
@@ -80,8 +119,10 @@ describe("RedPacket", function () {
   });
 
   describe("Deployment", function () {
-    it("Should deploy with correct token address", async function () {
-      expect(await redPacket.TOKEN()).to.equal(tokenAddress);
+    it("Should deploy with the token as the only supported token", async function () {
+      expect(await redPacket.getSupportedTokens()).to.deep.equal([tokenAddress]);
+      expect(await redPacket.isTokenSupported(tokenAddress)).to.equal(true);
+      expect(await redPacket.owner()).to.equal(signers.deployer.address);
     });
 
     it("Should start with zero red packet count", async function () {
@@ -103,12 +144,15 @@ describe("RedPacket", function () {
       ).add64(amount).encrypt();
 
       const tx = await redPacket.connect(signers.alice).createRedPacket(
+        tokenAddress,
         0, // Normal type
         encryptedInput.handles[0],
         encryptedInput.inputProof,
         count,
+        0, // Start right away
         expireTime,
-        message
+        message,
+        NO_RESTRICTIONS
       );
 
       await expect(tx)
@@ -129,6 +173,12 @@ describe("RedPacket", function () {
       expect(packetInfo.expireTime).to.equal(expireTime);
       expect(packetInfo.message).to.equal(message);
       expect(packetInfo.exists).to.be.equal(true);
+
+      // The public mapping getter returns the same record
+      const stored = await redPacket.redPackets(0);
+      expect([stored.id, stored.creator, stored.message, stored.exists]).to.deep.equal(
+        [0n, signers.alice.address, message, true]
+      );
     });
 
     it("Should create a random red packet successfully", async function () {
@@ -144,12 +194,15 @@ describe("RedPacket", function () {
       ).add64(amount).encrypt();
 
       const tx = await redPacket.connect(signers.bob).createRedPacket(
+        tokenAddress,
         1, // Random type
         encryptedInput.handles[0],
         encryptedInput.inputProof,
         count,
+        0,
         expireTime,
-        message
+        message,
+        NO_RESTRICTIONS
       );
 
       await expect(tx)
@@ -174,24 +227,30 @@ describe("RedPacket", function () {
       // Test zero count
       await expect(
         redPacket.connect(signers.alice).createRedPacket(
+          tokenAddress,
           0,
           encryptedInput.handles[0],
           encryptedInput.inputProof,
           0, // Invalid count
+          0,
           expireTime,
-          "Test"
+          "Test",
+          NO_RESTRICTIONS
         )
       ).to.be.revertedWithCustomError(redPacket, "InvalidCount");
 
       // Test count > 100
       await expect(
         redPacket.connect(signers.alice).createRedPacket(
+          tokenAddress,
           0,
           encryptedInput.handles[0],
           encryptedInput.inputProof,
           101, // Invalid count
+          0,
           expireTime,
-          "Test"
+          "Test",
+          NO_RESTRICTIONS
         )
       ).to.be.revertedWithCustomError(redPacket, "InvalidCount");
 
@@ -200,17 +259,112 @@ describe("RedPacket", function () {
       const pastTime = currentTime - 3600; // 1 hour ago
       await expect(
         redPacket.connect(signers.alice).createRedPacket(
+          tokenAddress,
           0,
           encryptedInput.handles[0],
           encryptedInput.inputProof,
           10,
+          0,
           pastTime, // Invalid time
-          "Test"
+          "Test",
+          NO_RESTRICTIONS
         )
       ).to.be.revertedWithCustomError(redPacket, "InvalidExpireTime");
     });
   });
 
+  describe("Transfer-and-Call Creation", function () {
+    // Helper function to send tokens to the red packet contract with the packet parameters attached
+    async function transferAndCall(sender: HardhatEthersSigner, amount: number, data: string) {
+      const encryptedInput = await fhevm.createEncryptedInput(
+        tokenAddress,
+        sender.address
+      ).add64(amount).encrypt();
+
+      return token.connect(sender)["confidentialTransferAndCall(address,bytes32,bytes,bytes)"](
+        redPacketAddress,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        data
+      );
+    }
+
+    beforeEach(async function () {
+      // Prove no operator approval is needed
+      await token.connect(signers.alice).setOperator(redPacketAddress, 0);
+    });
+
+    it("Should create a red packet funded by the transferred tokens", async function () {
+      const expireTime = await getExpireTime(24);
+      const data = await encodeCreatePacketData({
+        packetType: RedPacketType.NORMAL, count: 2, expireTime, message: "One transaction",
+      });
+
+      await expect(transferAndCall(signers.alice, 1000, data))
+        .to.emit(redPacket, "RedPacketCreated")
+        .withArgs(0, signers.alice.address, 0, 2, expireTime, "One transaction");
+
+      const packetInfo = await redPacket.getRedPacket(0);
+      expect(packetInfo.creator).to.equal(signers.alice.address);
+      expect(packetInfo.totalCount).to.equal(2);
+      expect(await clientFor(signers.alice).decryptBalance()).to.equal(1000000n - 1000n);
+
+      await redPacket.connect(signers.bob).claimRedPacket(0);
+      expect(await decryptClaimAmount(0, signers.bob)).to.equal(500n);
+    });
+
+    it("Should keep the claim restrictions encoded in the data", async function () {
+      const data = await encodeCreatePacketData({
+        packetType: RedPacketType.RANDOM,
+        count: 3,
+        expireTime: await getExpireTime(24),
+        message: "Restricted",
+        password: "open sesame",
+        voucherRequired: true,
+      });
+      await transferAndCall(signers.alice, 1000, data);
+
+      const packetInfo = await redPacket.getRedPacket(0);
+      expect(packetInfo.packetType).to.equal(1);
+      expect(packetInfo.passwordSigner).to.equal(await getPasswordSigner("open sesame", packetInfo.passwordSalt));
+      expect(packetInfo.voucherRequired).to.equal(true);
+      expect(packetInfo.merkleRoot).to.equal(ethers.ZeroHash);
+    });
+
+    it("Should revert the transfer when the parameters are invalid", async function () {
+      const expireTime = await getExpireTime(24);
+      const badCount = await encodeCreatePacketData({
+        packetType: RedPacketType.NORMAL, count: 0, expireTime, message: "Test",
+      });
+      const badExpiry = await encodeCreatePacketData({
+        packetType: RedPacketType.NORMAL, count: 2, expireTime: await getExpireTime(-1), message: "Test",
+      });
+
+      await expect(transferAndCall(signers.alice, 1000, badCount))
+        .to.be.revertedWithCustomError(redPacket, "InvalidCount");
+      await expect(transferAndCall(signers.alice, 1000, badExpiry))
+        .to.be.revertedWithCustomError(redPacket, "InvalidExpireTime");
+
+      expect(await redPacket.redPacketCount()).to.equal(0);
+      expect(await clientFor(signers.alice).decryptBalance()).to.equal(1000000n);
+    });
+
+    it("Should reject transfers that do not come from the red packet token", async function () {
+      const data = await encodeCreatePacketData({
+        packetType: RedPacketType.NORMAL, count: 2, expireTime: await getExpireTime(24), message: "Test",
+      });
+
+      await expect(
+        redPacket.connect(signers.alice).onConfidentialTransferReceived(
+          signers.alice.address,
+          signers.alice.address,
+          ethers.ZeroHash,
+          data
+        )
+      ).to.be.revertedWithCustomError(redPacket, "UnsupportedToken");
+    });
+  });
+
   describe("Red Packet Claiming", function () {
     let redPacketId: number;
     let expireTime: number;
@@ -220,36 +374,15 @@ describe("RedPacket", function () {
       const count = 5;
       expireTime = await getExpireTime(24); // 24 hours
 
-      // Create encrypted input
-      const encryptedInput = await fhevm.createEncryptedInput(
-        tokenAddress,
-        redPacketAddress
-      ).add64(amount).encrypt();
-
       // Create a red packet
-      const tx = await redPacket.connect(signers.alice).createRedPacket(
-        0, // Normal type
-        encryptedInput.handles[0],
-        encryptedInput.inputProof,
+      const result = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount,
         count,
         expireTime,
-        "Test Red Packet"
-      );
-
-      const receipt = await tx.wait();
-      const event = receipt?.logs.find((log: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
-        try {
-          const parsed = redPacket.interface.parseLog(log);
-          return parsed?.name === "RedPacketCreated";
-        } catch {
-          return false;
-        }
+        message: "Test Red Packet",
       });
-
-      if (event) {
-        const parsed = redPacket.interface.parseLog(event);
-        redPacketId = Number(parsed?.args[0]);
-      }
+      redPacketId = Number(result.redPacketId);
     });
 
     it("Should allow claiming an active red packet", async function () {
@@ -328,165 +461,1316 @@ describe("RedPacket", function () {
     });
   });
 
-  describe("Red Packet Information", function () {
-    it("Should return correct red packet information", async function () {
-      const amount = 1000;
-      const count = 3;
-      const expireTime = await getExpireTime(24);
-      const message = "Test Message";
+  describe("Scheduled Start", function () {
+    let startTime: number;
+    let expireTime: number;
 
-      // Create encrypted input
-      const encryptedInput = await fhevm.createEncryptedInput(
-        tokenAddress,
-        redPacketAddress
-      ).add64(amount).encrypt();
+    // Helper function to create a packet opening at startTime through the client
+    async function createScheduledPacket(transferAndCall: boolean = false): Promise<number> {
+      const params = {
+        packetType: RedPacketType.NORMAL,
+        amount: 1000,
+        count: 2,
+        startTime,
+        expireTime,
+        message: "New Year's Eve",
+      };
+      const aliceClient = clientFor(signers.alice);
+      const result = transferAndCall
+        ? await aliceClient.transferAndCreatePacket(params)
+        : await aliceClient.createPacket(params);
+      return Number(result.redPacketId);
+    }
 
-      // Create red packet
-      await redPacket.connect(signers.alice).createRedPacket(
-        0,
-        encryptedInput.handles[0],
-        encryptedInput.inputProof,
+    beforeEach(async function () {
+      startTime = await getExpireTime(12);
+      expireTime = startTime + 24 * 3600;
+    });
+
+    it("Should only open claims at the start time", async function () {
+      const redPacketId = await createScheduledPacket();
+      expect((await redPacket.getRedPacket(redPacketId)).startTime).to.equal(startTime);
+      expect(await redPacket.isRedPacketActive(redPacketId)).to.equal(false);
+
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketNotStarted");
+
+      await increaseTimeTo(BigInt(startTime));
+      expect(await redPacket.isRedPacketActive(redPacketId)).to.equal(true);
+      await expect(redPacket.connect(signers.bob).claimRedPacket(redPacketId))
+        .to.emit(redPacket, "RedPacketClaimed")
+        .withArgs(redPacketId, signers.bob.address, 1);
+    });
+
+    it("Should keep the start time of packets created with transfer-and-call", async function () {
+      const redPacketId = await createScheduledPacket(true);
+
+      expect((await redPacket.getRedPacket(redPacketId)).startTime).to.equal(startTime);
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketNotStarted");
+    });
+
+    it("Should open unscheduled packets on creation", async function () {
+      startTime = 0;
+      const redPacketId = await createScheduledPacket();
+
+      const packet = await redPacket.getRedPacket(redPacketId);
+      expect(packet.startTime).to.equal(packet.createdAt);
+      expect(await redPacket.isRedPacketActive(redPacketId)).to.equal(true);
+    });
+
+    it("Should let the creator cancel a packet before it starts", async function () {
+      const redPacketId = await createScheduledPacket();
+
+      await expect(redPacket.connect(signers.alice).cancelRedPacket(redPacketId))
+        .to.emit(redPacket, "RedPacketCancelled")
+        .withArgs(redPacketId, 2);
+    });
+
+    it("Should reject start times in the past or not before the expiry", async function () {
+      const now = await getExpireTime(0);
+
+      for (const invalidStart of [now - 3600, expireTime, expireTime + 3600]) {
+        startTime = invalidStart;
+        await expect(createScheduledPacket()).to.be.rejectedWith("InvalidStartTime");
+      }
+
+      // The expiry keeps its 30-day limit, so a scheduled packet still closes within 30 days
+      startTime = now + 29 * 24 * 3600;
+      expireTime = now + 31 * 24 * 3600;
+      await expect(createScheduledPacket()).to.be.rejectedWith("InvalidExpireTime");
+    });
+  });
+
+  describe("Normal Distribution", function () {
+    async function createNormalRedPacket(amount: number, count: number): Promise<number> {
+      const { redPacketId } = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount,
         count,
-        expireTime,
-        message
-      );
+        expireTime: await getExpireTime(24),
+        message: "Split Test",
+      });
 
-      // Get red packet info
-      const packetInfo = await redPacket.getRedPacket(0);
-      expect(packetInfo.id).to.equal(0);
-      expect(packetInfo.creator).to.equal(signers.alice.address);
-      expect(packetInfo.packetType).to.equal(0);
-      expect(packetInfo.status).to.equal(0);
-      expect(packetInfo.totalCount).to.equal(count);
-      expect(packetInfo.remainingCount).to.equal(count);
-      expect(packetInfo.expireTime).to.equal(expireTime);
-      expect(packetInfo.message).to.equal(message);
-      expect(packetInfo.exists).to.be.equal(true);
+      return Number(redPacketId);
+    }
+
+    it("Should split an evenly divisible amount equally", async function () {
+      const redPacketId = await createNormalRedPacket(900, 3);
+      const claimers = [signers.bob, signers.charlie, signers.deployer];
+
+      for (const claimer of claimers) {
+        await redPacket.connect(claimer).claimRedPacket(redPacketId);
+      }
+
+      for (const claimer of claimers) {
+        expect(await decryptClaimAmount(redPacketId, claimer)).to.equal(300n);
+      }
     });
 
-    it("Should return empty claim record for non-claimer", async function () {
+    it("Should give the remainder to the last claimer", async function () {
       const amount = 1000;
-      const count = 3;
-      const expireTime = await getExpireTime(24);
+      const redPacketId = await createNormalRedPacket(amount, 3);
+      const claimers = [signers.bob, signers.charlie, signers.deployer];
 
-      // Create encrypted input
-      const encryptedInput = await fhevm.createEncryptedInput(
-        tokenAddress,
-        redPacketAddress
-      ).add64(amount).encrypt();
+      for (const claimer of claimers) {
+        await redPacket.connect(claimer).claimRedPacket(redPacketId);
+      }
 
-      // Create red packet
-      await redPacket.connect(signers.alice).createRedPacket(
-        0,
-        encryptedInput.handles[0],
-        encryptedInput.inputProof,
-        count,
-        expireTime,
-        "Test"
-      );
+      const shares: bigint[] = [];
+      for (const claimer of claimers) {
+        shares.push(await decryptClaimAmount(redPacketId, claimer));
+      }
 
-      // Check claim record for non-claimer
-      const claimRecord = await redPacket.getClaimRecord(0, signers.bob.address);
-      expect(claimRecord.exists).to.be.equal(false);
+      expect(shares).to.deep.equal([333n, 333n, 334n]);
+      expect(shares.reduce((sum, share) => sum + share, 0n)).to.equal(BigInt(amount));
     });
 
-    it("Should return correct claim record after claiming", async function () {
+    it("Should pay out the full funded amount to claimers", async function () {
       const amount = 1000;
-      const count = 3;
-      const expireTime = await getExpireTime(24);
+      const redPacketId = await createNormalRedPacket(amount, 2);
 
-      // Create encrypted input
-      const encryptedInput = await fhevm.createEncryptedInput(
-        tokenAddress,
-        redPacketAddress
-      ).add64(amount).encrypt();
+      const balanceBefore = await clientFor(signers.bob).decryptBalance();
 
-      // Create red packet
-      await redPacket.connect(signers.alice).createRedPacket(
-        0,
-        encryptedInput.handles[0],
-        encryptedInput.inputProof,
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      await redPacket.connect(signers.charlie).claimRedPacket(redPacketId);
+
+      const balanceAfter = await clientFor(signers.bob).decryptBalance();
+      expect(balanceAfter - balanceBefore).to.equal(500n);
+
+      const bobShare = await decryptClaimAmount(redPacketId, signers.bob);
+      const charlieShare = await decryptClaimAmount(redPacketId, signers.charlie);
+      expect(bobShare + charlieShare).to.equal(BigInt(amount));
+    });
+  });
+
+  describe("Random Distribution", function () {
+    async function createRandomRedPacket(amount: number, count: number): Promise<number> {
+      const { redPacketId } = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.RANDOM,
+        amount,
         count,
-        expireTime,
-        "Test"
-      );
+        expireTime: await getExpireTime(24),
+        message: "Lucky Draw!",
+      });
 
-      // Claim red packet
-      await redPacket.connect(signers.bob).claimRedPacket(0);
+      return Number(redPacketId);
+    }
 
-      // Check claim record
-      const claimRecord = await redPacket.getClaimRecord(0, signers.bob.address);
-      expect(claimRecord.exists).to.be.equal(true);
-      expect(claimRecord.user).to.equal(signers.bob.address);
+    async function claimAll(redPacketId: number, claimers: HardhatEthersSigner[]): Promise<bigint[]> {
+      for (const claimer of claimers) {
+        await redPacket.connect(claimer).claimRedPacket(redPacketId);
+      }
+
+      const shares: bigint[] = [];
+      for (const claimer of claimers) {
+        shares.push(await decryptClaimAmount(redPacketId, claimer));
+      }
+      return shares;
+    }
+
+    it("Should give every claimer a positive share that adds up to the total", async function () {
+      const amount = 10000;
+      const count = 5;
+      const redPacketId = await createRandomRedPacket(amount, count);
+      const claimers = (await ethers.getSigners()).slice(1, 1 + count);
+
+      const shares = await claimAll(redPacketId, claimers);
+
+      for (const share of shares) {
+        expect(share >= (await redPacket.MIN_RANDOM_SHARE())).to.be.equal(true);
+      }
+      expect(shares.reduce((sum, share) => sum + share, 0n)).to.equal(BigInt(amount));
     });
 
-    it("Should correctly identify active red packets", async function () {
-      const amount = 1000;
-      const count = 3;
-      const expireTime = await getExpireTime(24);
+    it("Should vary shares from claim to claim", async function () {
+      const amount = 10000;
+      const count = 5;
+      const redPacketId = await createRandomRedPacket(amount, count);
+      const claimers = (await ethers.getSigners()).slice(1, 1 + count);
 
-      // Create encrypted input
-      const encryptedInput = await fhevm.createEncryptedInput(
-        tokenAddress,
-        redPacketAddress
-      ).add64(amount).encrypt();
+      const shares = await claimAll(redPacketId, claimers);
 
-      // Create red packet
-      await redPacket.connect(signers.alice).createRedPacket(
-        0,
-        encryptedInput.handles[0],
-        encryptedInput.inputProof,
-        count,
-        expireTime,
-        "Test"
-      );
+      expect(new Set(shares).size).to.be.greaterThan(1);
+    });
 
-      // Check if active
-      expect(await redPacket.isRedPacketActive(0)).to.be.equal(true);
+    it("Should keep the minimum share when the total is tight", async function () {
+      const amount = 3;
+      const count = 3;
+      const redPacketId = await createRandomRedPacket(amount, count);
+      const claimers = (await ethers.getSigners()).slice(1, 1 + count);
 
-      // Fast forward to expiration
-      await increaseTimeTo(BigInt(expireTime + 3600));
+      const shares = await claimAll(redPacketId, claimers);
 
-      // Check if still active
-      expect(await redPacket.isRedPacketActive(0)).to.be.equal(false);
+      expect(shares).to.deep.equal([1n, 1n, 1n]);
     });
   });
 
-  describe("Multiple Red Packets", function () {
-    it("Should handle multiple red packets correctly", async function () {
-      const amount1 = 1000;
-      const amount2 = 2000;
-      const count = 2;
-      const expireTime = await getExpireTime(24);
+  describe("Lucky King", function () {
+    // Helper function to create a packet and let every claimer claim a share
+    async function createAndClaimAll(packetType: RedPacketType, claimers: HardhatEthersSigner[]): Promise<number> {
+      const { redPacketId } = await clientFor(signers.alice).createPacket({
+        packetType,
+        amount: 10000,
+        count: claimers.length,
+        expireTime: await getExpireTime(24),
+        message: "Who is the lucky king?",
+      });
 
-      // Create first red packet
-      const encryptedInput1 = await fhevm.createEncryptedInput(
-        tokenAddress,
-        redPacketAddress
-      ).add64(amount1).encrypt();
+      for (const claimer of claimers) {
+        await redPacket.connect(claimer).claimRedPacket(redPacketId);
+      }
+      return Number(redPacketId);
+    }
 
-      await redPacket.connect(signers.alice).createRedPacket(
-        0,
-        encryptedInput1.handles[0],
-        encryptedInput1.inputProof,
-        count,
-        expireTime,
-        "First Red Packet"
-      );
+    it("Should reveal the claimer with the largest share through the decryption oracle", async function () {
+      const claimers = (await ethers.getSigners()).slice(1, 6);
+      const redPacketId = await createAndClaimAll(RedPacketType.RANDOM, claimers);
 
-      // Create second red packet
-      const encryptedInput2 = await fhevm.createEncryptedInput(
-        tokenAddress,
-        redPacketAddress
-      ).add64(amount2).encrypt();
+      const shares: bigint[] = [];
+      for (const claimer of claimers) {
+        shares.push(await decryptClaimAmount(redPacketId, claimer));
+      }
+      // On a tie the first claimer with the largest share wins
+      const expected = claimers[shares.indexOf(shares.reduce((max, share) => (share > max ? share : max)))];
 
-      await redPacket.connect(signers.bob).createRedPacket(
-        1,
-        encryptedInput2.handles[0],
-        encryptedInput2.inputProof,
-        count,
+      await redPacket.connect(signers.charlie).revealLuckyKing(redPacketId);
+      expect(await redPacket.getLuckyKing(redPacketId)).to.deep.equal([ethers.ZeroAddress, true]);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await redPacket.getLuckyKing(redPacketId)).to.deep.equal([expected.address, true]);
+      const events = await redPacket.queryFilter(redPacket.filters.LuckyKingRevealed(redPacketId));
+      expect(events.map((event) => event.args.luckyKing)).to.deep.equal([expected.address]);
+    });
+
+    it("Should reveal the only claimer of a single-share packet", async function () {
+      const redPacketId = await createAndClaimAll(RedPacketType.RANDOM, [signers.bob]);
+
+      await redPacket.revealLuckyKing(redPacketId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await redPacket.getLuckyKing(redPacketId)).luckyKing).to.equal(signers.bob.address);
+    });
+
+    it("Should only reveal fully claimed random packets, once", async function () {
+      const normal = await createAndClaimAll(RedPacketType.NORMAL, [signers.bob, signers.charlie]);
+      await expect(redPacket.revealLuckyKing(normal)).to.be.revertedWithCustomError(redPacket, "NotRandomRedPacket");
+
+      const { redPacketId } = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.RANDOM,
+        amount: 1000,
+        count: 2,
+        expireTime: await getExpireTime(24),
+        message: "Half claimed",
+      });
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      await expect(
+        redPacket.revealLuckyKing(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketNotEmpty");
+
+      await redPacket.connect(signers.charlie).claimRedPacket(redPacketId);
+      await redPacket.revealLuckyKing(redPacketId);
+      await expect(
+        redPacket.revealLuckyKing(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "LuckyKingAlreadyRequested");
+
+      await expect(redPacket.revealLuckyKing(999)).to.be.revertedWithCustomError(redPacket, "RedPacketNotFound");
+    });
+
+    it("Should reject a replayed callback", async function () {
+      const redPacketId = await createAndClaimAll(RedPacketType.RANDOM, [signers.bob, signers.charlie]);
+      await redPacket.revealLuckyKing(redPacketId);
+      await fhevm.awaitDecryptionOracle();
+      const luckyKing = (await redPacket.getLuckyKing(redPacketId)).luckyKing;
+
+      const [revealed] = await redPacket.queryFilter(redPacket.filters.LuckyKingRevealed(redPacketId));
+      await expect(
+        replayTransaction(revealed, signers.charlie)
+      ).to.be.revertedWithCustomError(redPacket, "DecryptionRequestNotPending");
+
+      expect((await redPacket.getLuckyKing(redPacketId)).luckyKing).to.equal(luckyKing);
+      expect(await redPacket.queryFilter(redPacket.filters.LuckyKingRevealed(redPacketId))).to.have.length(1);
+    });
+
+    it("Should reject callbacks without valid decryption signatures", async function () {
+      const redPacketId = await createAndClaimAll(RedPacketType.RANDOM, [signers.bob, signers.charlie]);
+      const requestId = await redPacket.revealLuckyKing.staticCall(redPacketId);
+      await redPacket.revealLuckyKing(redPacketId);
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [signers.deployer.address]);
+      await expect(redPacket.luckyKingCallback(requestId, forged, "0x")).to.be.reverted;
+      expect((await redPacket.getLuckyKing(redPacketId)).luckyKing).to.equal(ethers.ZeroAddress);
+    });
+  });
+
+  describe("Claim Disclosure", function () {
+    // Helper function to create a normal packet of 1000 and let bob and charlie claim it
+    async function createClaimedPacket(): Promise<number> {
+      const { redPacketId } = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 1000,
+        count: 2,
+        expireTime: await getExpireTime(24),
+        message: "Show it off",
+      });
+
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      await redPacket.connect(signers.charlie).claimRedPacket(redPacketId);
+      return Number(redPacketId);
+    }
+
+    it("Should store and announce the disclosed amount, keeping other claims private", async function () {
+      const redPacketId = await createClaimedPacket();
+
+      await redPacket.connect(signers.bob).discloseClaimAmount(redPacketId);
+      let bobRecord = await redPacket.getClaimRecord(redPacketId, signers.bob.address);
+      expect([bobRecord.disclosureRequested, bobRecord.disclosed]).to.deep.equal([true, false]);
+
+      await fhevm.awaitDecryptionOracle();
+
+      bobRecord = await redPacket.getClaimRecord(redPacketId, signers.bob.address);
+      expect([bobRecord.disclosed, bobRecord.disclosedAmount]).to.deep.equal([true, 500n]);
+      const charlieRecord = await redPacket.getClaimRecord(redPacketId, signers.charlie.address);
+      expect([charlieRecord.disclosureRequested, charlieRecord.disclosed, charlieRecord.disclosedAmount]).to.deep.equal(
+        [false, false, 0n]
+      );
+
+      const events = await redPacket.queryFilter(redPacket.filters.ClaimAmountDisclosed(redPacketId));
+      expect(events.map((event) => [event.args.claimer, event.args.amount])).to.deep.equal([
+        [signers.bob.address, 500n],
+      ]);
+    });
+
+    it("Should only disclose the caller's own claim, once", async function () {
+      const redPacketId = await createClaimedPacket();
+
+      await expect(
+        redPacket.connect(signers.deployer).discloseClaimAmount(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "ClaimNotFound");
+
+      await redPacket.connect(signers.bob).discloseClaimAmount(redPacketId);
+      await expect(
+        redPacket.connect(signers.bob).discloseClaimAmount(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "DisclosureAlreadyRequested");
+    });
+
+    it("Should reject a replayed callback", async function () {
+      const redPacketId = await createClaimedPacket();
+      await redPacket.connect(signers.bob).discloseClaimAmount(redPacketId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [disclosed] = await redPacket.queryFilter(redPacket.filters.ClaimAmountDisclosed(redPacketId));
+      await expect(
+        replayTransaction(disclosed, signers.charlie)
+      ).to.be.revertedWithCustomError(redPacket, "DecryptionRequestNotPending");
+
+      const bobRecord = await redPacket.getClaimRecord(redPacketId, signers.bob.address);
+      expect([bobRecord.disclosed, bobRecord.disclosedAmount]).to.deep.equal([true, 500n]);
+      expect(await redPacket.queryFilter(redPacket.filters.ClaimAmountDisclosed(redPacketId))).to.have.length(1);
+    });
+
+    it("Should reject callbacks without valid decryption signatures", async function () {
+      const redPacketId = await createClaimedPacket();
+      const requestId = await redPacket.connect(signers.bob).discloseClaimAmount.staticCall(redPacketId);
+      await redPacket.connect(signers.bob).discloseClaimAmount(redPacketId);
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint64"], [1_000_000]);
+      await expect(redPacket.claimDisclosureCallback(requestId, forged, "0x")).to.be.reverted;
+      expect((await redPacket.getClaimRecord(redPacketId, signers.bob.address)).disclosed).to.equal(false);
+    });
+  });
+
+  describe("Creator Stats", function () {
+    let redPacketId: number;
+
+    beforeEach(async function () {
+      const result = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.RANDOM,
+        amount: 1000,
+        count: 3,
+        expireTime: await getExpireTime(24),
+        message: "How is it going?",
+      });
+      redPacketId = Number(result.redPacketId);
+    });
+
+    it("Should keep the claimed and remaining amounts up to date for the creator", async function () {
+      expect(await clientFor(signers.alice).decryptCreatorStats(redPacketId)).to.deep.equal({
+        totalAmount: 1000n,
+        claimedAmount: 0n,
+        remainingAmount: 1000n,
+      });
+
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      await redPacket.connect(signers.charlie).claimRedPacket(redPacketId);
+      const claimed =
+        (await decryptClaimAmount(redPacketId, signers.bob)) + (await decryptClaimAmount(redPacketId, signers.charlie));
+
+      expect(await clientFor(signers.alice).decryptCreatorStats(redPacketId)).to.deep.equal({
+        totalAmount: 1000n,
+        claimedAmount: claimed,
+        remainingAmount: 1000n - claimed,
+      });
+    });
+
+    it("Should show nothing remaining once the packet is cancelled", async function () {
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      const claimed = await decryptClaimAmount(redPacketId, signers.bob);
+
+      await redPacket.connect(signers.alice).cancelRedPacket(redPacketId);
+
+      const stats = await clientFor(signers.alice).decryptCreatorStats(redPacketId);
+      expect([stats.claimedAmount, stats.remainingAmount]).to.deep.equal([claimed, 0n]);
+    });
+
+    it("Should not let anyone but the creator decrypt the stats", async function () {
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      const packet = await redPacket.getRedPacket(redPacketId);
+
+      for (const handle of [packet.encryptedClaimedAmount, packet.encryptedRemainingAmount]) {
+        await expect(clientFor(signers.bob).decrypt(handle, redPacketAddress)).to.be.rejectedWith(
+          DecryptionPermissionError
+        );
+      }
+    });
+  });
+
+  describe("Airdrop", function () {
+    // Helper function to call airdrop directly, funded by alice
+    async function airdropAs(packetType: RedPacketType, amount: number, recipients: string[]) {
+      const encryptedInput = await fhevm.createEncryptedInput(
+        tokenAddress,
+        redPacketAddress
+      ).add64(amount).encrypt();
+
+      return redPacket.connect(signers.alice).airdrop(
+        tokenAddress,
+        packetType,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        recipients,
+        "Airdrop"
+      );
+    }
+
+    it("Should pay every recipient an equal share and record it as a claim", async function () {
+      const recipients = [signers.bob, signers.charlie, signers.deployer];
+      const balanceBefore = await clientFor(signers.bob).decryptBalance();
+
+      const { redPacketId } = await clientFor(signers.alice).airdrop({
+        packetType: RedPacketType.NORMAL,
+        amount: 1000,
+        recipients: recipients.map((recipient) => recipient.address),
+        message: "Bonus",
+      });
+
+      const shares: bigint[] = [];
+      for (const recipient of recipients) {
+        shares.push(await decryptClaimAmount(Number(redPacketId), recipient));
+      }
+      expect(shares).to.deep.equal([333n, 333n, 334n]);
+      expect(await clientFor(signers.bob).decryptBalance()).to.equal(balanceBefore + 333n);
+
+      const packet = await redPacket.getRedPacket(redPacketId);
+      expect(packet.creator).to.equal(signers.alice.address);
+      expect(packet.status).to.equal(2); // EMPTY
+      expect(packet.remainingCount).to.equal(0);
+      expect(await redPacket.getRedPacketClaimersPage(redPacketId, 0, 10)).to.deep.equal(
+        recipients.map((recipient) => recipient.address)
+      );
+      expect(await redPacket.getClaimedRedPacketIds(signers.charlie.address, 0, 10)).to.deep.equal([redPacketId]);
+    });
+
+    it("Should split randomly and pay out the whole amount", async function () {
+      const recipients = [signers.bob, signers.charlie];
+
+      await expect(airdropAs(RedPacketType.RANDOM, 1000, recipients.map((recipient) => recipient.address)))
+        .to.emit(redPacket, "RedPacketCreated")
+        .and.to.emit(redPacket, "RedPacketClaimed")
+        .withArgs(0, signers.charlie.address, 0);
+
+      const shares: bigint[] = [];
+      for (const recipient of recipients) {
+        shares.push(await decryptClaimAmount(0, recipient));
+      }
+      expect(shares.every((share) => share >= 1n)).to.equal(true);
+      expect(shares.reduce((sum, share) => sum + share, 0n)).to.equal(1000n);
+    });
+
+    it("Should pay up to the per-type recipient caps and reject one more", async function () {
+      const addresses = (count: number) =>
+        Array.from({ length: count }, (_, i) => ethers.getAddress(ethers.toBeHex(i + 1, 20)));
+      const caps = {
+        [RedPacketType.NORMAL]: Number(await redPacket.MAX_EQUAL_AIRDROP_RECIPIENTS()),
+        [RedPacketType.RANDOM]: Number(await redPacket.MAX_RANDOM_AIRDROP_RECIPIENTS()),
+      };
+      expect(caps).to.deep.equal(MAX_AIRDROP_CHUNK_SIZE);
+
+      for (const packetType of [RedPacketType.NORMAL, RedPacketType.RANDOM]) {
+        await airdropAs(packetType, 1000, addresses(caps[packetType]));
+        await expect(
+          airdropAs(packetType, 1000, addresses(caps[packetType] + 1))
+        ).to.be.revertedWithCustomError(redPacket, "InvalidCount");
+      }
+    });
+
+    it("Should reject empty, duplicate and zero recipients", async function () {
+      await expect(airdropAs(RedPacketType.NORMAL, 100, [])).to.be.revertedWithCustomError(redPacket, "InvalidCount");
+      await expect(
+        airdropAs(RedPacketType.NORMAL, 100, [signers.bob.address, signers.bob.address])
+      ).to.be.revertedWithCustomError(redPacket, "AlreadyClaimed");
+      await expect(
+        airdropAs(RedPacketType.NORMAL, 100, [signers.bob.address, ethers.ZeroAddress])
+      ).to.be.revertedWithCustomError(redPacket, "InvalidRecipient");
+    });
+
+    it("Should leave nothing to claim", async function () {
+      await airdropAs(RedPacketType.NORMAL, 100, [signers.bob.address]);
+
+      expect(await redPacket.isRedPacketActive(0)).to.equal(false);
+      await expect(redPacket.connect(signers.charlie).claimRedPacket(0)).to.be.revertedWithCustomError(
+        redPacket,
+        "RedPacketExpiredError"
+      );
+    });
+  });
+
+  describe("Red Packet Refund", function () {
+    const amount = 1000;
+    let redPacketId: number;
+    let expireTime: number;
+
+    beforeEach(async function () {
+      expireTime = await getExpireTime(24);
+
+      const result = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount,
+        count: 4,
+        expireTime,
+        message: "Refund Test",
+      });
+      redPacketId = Number(result.redPacketId);
+    });
+
+    it("Should refund the unclaimed balance to the creator after expiry", async function () {
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      const balanceBefore = await clientFor(signers.alice).decryptBalance();
+
+      await increaseTimeTo(BigInt(expireTime + 3600));
+
+      await expect(redPacket.connect(signers.alice).refundRedPacket(redPacketId))
+        .to.emit(redPacket, "RedPacketExpired")
+        .withArgs(redPacketId);
+
+      const balanceAfter = await clientFor(signers.alice).decryptBalance();
+      expect(balanceAfter - balanceBefore).to.equal(750n);
+
+      const packetInfo = await redPacket.getRedPacket(redPacketId);
+      expect(packetInfo.status).to.equal(1); // Expired
+    });
+
+    it("Should prevent refunding twice", async function () {
+      await increaseTimeTo(BigInt(expireTime + 3600));
+      await redPacket.connect(signers.alice).refundRedPacket(redPacketId);
+
+      await expect(
+        redPacket.connect(signers.alice).refundRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "AlreadyRefunded");
+    });
+
+    it("Should prevent refunds by non-creators", async function () {
+      await increaseTimeTo(BigInt(expireTime + 3600));
+
+      await expect(
+        redPacket.connect(signers.bob).refundRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "NotRedPacketCreator");
+    });
+
+    it("Should prevent refunds before expiry", async function () {
+      await expect(
+        redPacket.connect(signers.alice).refundRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketNotExpired");
+    });
+
+    it("Should prevent refunding an empty red packet", async function () {
+      const claimers = (await ethers.getSigners()).slice(1, 5);
+      for (const claimer of claimers) {
+        await redPacket.connect(claimer).claimRedPacket(redPacketId);
+      }
+      await increaseTimeTo(BigInt(expireTime + 3600));
+
+      await expect(
+        redPacket.connect(signers.alice).refundRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketEmpty");
+    });
+
+    it("Should handle refunding a non-existent red packet", async function () {
+      await expect(
+        redPacket.connect(signers.alice).refundRedPacket(999)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketNotFound");
+    });
+  });
+
+  describe("Finalizing Expired Red Packets", function () {
+    let expireTime: number;
+
+    // Helper function to create a 1000 token packet with 4 shares
+    async function createPacketAs(creator: HardhatEthersSigner, expiresAt: number): Promise<number> {
+      const result = await clientFor(creator).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 1000,
+        count: 4,
+        expireTime: expiresAt,
+        message: "Finalize Test",
+      });
+      return Number(result.redPacketId);
+    }
+
+    beforeEach(async function () {
+      expireTime = await getExpireTime(24);
+    });
+
+    it("Should let anyone expire and refund packets past their expire time", async function () {
+      const alicePacket = await createPacketAs(signers.alice, expireTime);
+      const bobPacket = await createPacketAs(signers.bob, expireTime);
+      const running = await createPacketAs(signers.alice, expireTime + 7200);
+      await redPacket.connect(signers.charlie).claimRedPacket(alicePacket);
+      const aliceBefore = await clientFor(signers.alice).decryptBalance();
+      const bobBefore = await clientFor(signers.bob).decryptBalance();
+
+      await increaseTimeTo(BigInt(expireTime + 3600));
+
+      const ids = [alicePacket, bobPacket, running, 999];
+      expect(await redPacket.connect(signers.charlie).finalizeExpiredRedPackets.staticCall(ids)).to.equal(2);
+      await expect(redPacket.connect(signers.charlie).finalizeExpiredRedPackets(ids))
+        .to.emit(redPacket, "RedPacketExpired")
+        .withArgs(alicePacket)
+        .and.to.emit(redPacket, "RedPacketExpired")
+        .withArgs(bobPacket);
+
+      expect((await redPacket.getRedPacket(alicePacket)).status).to.equal(1); // Expired
+      expect((await redPacket.getRedPacket(bobPacket)).status).to.equal(1); // Expired
+      expect((await redPacket.getRedPacket(running)).status).to.equal(0); // Still active
+      expect(await clientFor(signers.alice).decryptBalance()).to.equal(aliceBefore + 750n);
+      expect(await clientFor(signers.bob).decryptBalance()).to.equal(bobBefore + 1000n);
+
+      await expect(
+        redPacket.connect(signers.alice).refundRedPacket(alicePacket)
+      ).to.be.revertedWithCustomError(redPacket, "AlreadyRefunded");
+    });
+
+    it("Should skip packets that are refunded, empty or cancelled", async function () {
+      const refunded = await createPacketAs(signers.alice, expireTime);
+      const empty = await createPacketAs(signers.alice, expireTime);
+      const cancelled = await createPacketAs(signers.alice, expireTime);
+      for (const claimer of (await ethers.getSigners()).slice(2, 6)) {
+        await redPacket.connect(claimer).claimRedPacket(empty);
+      }
+      await redPacket.connect(signers.alice).cancelRedPacket(cancelled);
+      await increaseTimeTo(BigInt(expireTime + 3600));
+      await redPacket.connect(signers.alice).refundRedPacket(refunded);
+
+      const ids = [refunded, empty, cancelled];
+      expect(await redPacket.finalizeExpiredRedPackets.staticCall(ids)).to.equal(0);
+      await expect(redPacket.finalizeExpiredRedPackets(ids)).not.to.emit(redPacket, "RedPacketExpired");
+      expect((await redPacket.getRedPacket(empty)).status).to.equal(2); // Empty
+      expect((await redPacket.getRedPacket(cancelled)).status).to.equal(3); // Cancelled
+    });
+
+    it("Should reject empty and oversized batches", async function () {
+      const maxBatch = Number(await redPacket.MAX_FINALIZE_BATCH());
+      const tooMany = Array.from({ length: maxBatch + 1 }, (_, i) => i);
+
+      await expect(redPacket.finalizeExpiredRedPackets([])).to.be.revertedWithCustomError(redPacket, "InvalidCount");
+      await expect(
+        redPacket.finalizeExpiredRedPackets(tooMany)
+      ).to.be.revertedWithCustomError(redPacket, "InvalidCount");
+    });
+  });
+
+  describe("Red Packet Cancellation", function () {
+    const amount = 1000;
+    let redPacketId: number;
+    let expireTime: number;
+
+    beforeEach(async function () {
+      expireTime = await getExpireTime(24);
+
+      const result = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount,
+        count: 4,
+        expireTime,
+        message: "Wrong Group",
+      });
+      redPacketId = Number(result.redPacketId);
+    });
+
+    it("Should return the unclaimed balance to the creator", async function () {
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      const balanceBefore = await clientFor(signers.alice).decryptBalance();
+
+      await expect(redPacket.connect(signers.alice).cancelRedPacket(redPacketId))
+        .to.emit(redPacket, "RedPacketCancelled")
+        .withArgs(redPacketId, 3);
+
+      const balanceAfter = await clientFor(signers.alice).decryptBalance();
+      expect(balanceAfter - balanceBefore).to.equal(750n);
+
+      const packetInfo = await redPacket.getRedPacket(redPacketId);
+      expect(packetInfo.status).to.equal(3); // Cancelled
+      expect(await redPacket.isRedPacketActive(redPacketId)).to.be.equal(false);
+    });
+
+    it("Should prevent claiming a cancelled red packet", async function () {
+      await redPacket.connect(signers.alice).cancelRedPacket(redPacketId);
+
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketExpiredError");
+    });
+
+    it("Should prevent cancellation by non-creators", async function () {
+      await expect(
+        redPacket.connect(signers.bob).cancelRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "NotRedPacketCreator");
+    });
+
+    it("Should prevent cancelling twice or refunding after cancellation", async function () {
+      await redPacket.connect(signers.alice).cancelRedPacket(redPacketId);
+
+      await expect(
+        redPacket.connect(signers.alice).cancelRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketNotActive");
+
+      await increaseTimeTo(BigInt(expireTime + 3600));
+      await expect(
+        redPacket.connect(signers.alice).refundRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketNotActive");
+    });
+
+    it("Should prevent cancelling an expired red packet", async function () {
+      await increaseTimeTo(BigInt(expireTime + 3600));
+
+      await expect(
+        redPacket.connect(signers.alice).cancelRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "RedPacketExpiredError");
+    });
+  });
+
+  describe("Multiple Tokens", function () {
+    let otherToken: ConfidentialToken;
+    let otherTokenAddress: string;
+    let aliceOther: RedPacketClient;
+
+    beforeEach(async function () {
+      otherToken = await (await ethers.getContractFactory("ConfidentialToken")).deploy(
+        signers.deployer.address,
+        0,
+        "Other Token",
+        "OTHER",
+        ""
+      );
+      otherTokenAddress = await otherToken.getAddress();
+      await otherToken.mint(signers.alice.address, 5000);
+
+      aliceOther = clientFor(signers.alice).withToken(otherToken);
+      await aliceOther.approveOperator();
+    });
+
+    it("Should let the owner manage the supported tokens", async function () {
+      await expect(redPacket.addToken(otherTokenAddress))
+        .to.emit(redPacket, "TokenAdded")
+        .withArgs(otherTokenAddress);
+      expect(await redPacket.getSupportedTokens()).to.deep.equal([tokenAddress, otherTokenAddress]);
+
+      await expect(redPacket.addToken(otherTokenAddress))
+        .to.be.revertedWithCustomError(redPacket, "TokenAlreadySupported");
+      await expect(redPacket.addToken(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(redPacket, "InvalidTokenAddress");
+      await expect(redPacket.connect(signers.alice).addToken(signers.alice.address))
+        .to.be.revertedWithCustomError(redPacket, "OwnableUnauthorizedAccount");
+
+      await expect(redPacket.removeToken(tokenAddress))
+        .to.emit(redPacket, "TokenRemoved")
+        .withArgs(tokenAddress);
+      expect(await redPacket.getSupportedTokens()).to.deep.equal([otherTokenAddress]);
+      expect(await redPacket.isTokenSupported(tokenAddress)).to.equal(false);
+      await expect(redPacket.removeToken(tokenAddress))
+        .to.be.revertedWithCustomError(redPacket, "UnsupportedToken");
+    });
+
+    it("Should reject packets funded with an unsupported token", async function () {
+      const params = {
+        packetType: RedPacketType.NORMAL, amount: 1000, count: 2, expireTime: await getExpireTime(24), message: "Test",
+      };
+
+      await expect(aliceOther.createPacket(params)).to.be.rejectedWith("UnsupportedToken");
+      await expect(aliceOther.transferAndCreatePacket(params)).to.be.rejectedWith("UnsupportedToken");
+    });
+
+    it("Should pay out claims and refunds in the packet's token", async function () {
+      await redPacket.addToken(otherTokenAddress);
+      const expireTime = await getExpireTime(24);
+      const { redPacketId } = await aliceOther.createPacket({
+        packetType: RedPacketType.NORMAL, amount: 1000, count: 4, expireTime, message: "Other",
+      });
+      expect((await redPacket.getRedPacket(redPacketId)).token).to.equal(otherTokenAddress);
+
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      expect(await clientFor(signers.bob).withToken(otherToken).decryptBalance()).to.equal(250n);
+      expect(await clientFor(signers.bob).decryptBalance()).to.equal(1000000n);
+
+      await increaseTimeTo(BigInt(expireTime + 3600));
+      await redPacket.connect(signers.alice).refundRedPacket(redPacketId);
+      expect(await aliceOther.decryptBalance()).to.equal(5000n - 250n);
+    });
+
+    it("Should keep paying out packets of a removed token", async function () {
+      await redPacket.addToken(otherTokenAddress);
+      const { redPacketId } = await aliceOther.createPacket({
+        packetType: RedPacketType.NORMAL, amount: 1000, count: 2, expireTime: await getExpireTime(24), message: "Other",
+      });
+      await redPacket.removeToken(otherTokenAddress);
+
+      await redPacket.connect(signers.bob).claimRedPacket(redPacketId);
+      expect(await clientFor(signers.bob).withToken(otherToken).decryptBalance()).to.equal(500n);
+    });
+  });
+
+  describe("Allowlisted Red Packets", function () {
+    let redPacketId: number;
+    let allowlist: Allowlist;
+
+    beforeEach(async function () {
+      allowlist = buildAllowlist([signers.bob.address, signers.charlie.address]);
+
+      const result = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 1000,
+        count: 2,
+        expireTime: await getExpireTime(24),
+        message: "Team Only",
+        merkleRoot: allowlist.root,
+      });
+      redPacketId = Number(result.redPacketId);
+    });
+
+    it("Should store the allowlist root", async function () {
+      const packetInfo = await redPacket.getRedPacket(redPacketId);
+      expect(packetInfo.merkleRoot).to.equal(allowlist.root);
+    });
+
+    it("Should let allowlisted users claim with their proof", async function () {
+      const proof = getAllowlistProof(allowlist, signers.bob.address)!;
+
+      await expect(redPacket.connect(signers.bob).claimRedPacketWithProof(redPacketId, proof))
+        .to.emit(redPacket, "RedPacketClaimed")
+        .withArgs(redPacketId, signers.bob.address, 1);
+
+      expect(await decryptClaimAmount(redPacketId, signers.bob)).to.equal(500n);
+    });
+
+    it("Should reject users that are not on the allowlist", async function () {
+      expect(getAllowlistProof(allowlist, signers.deployer.address)).to.equal(undefined);
+
+      await expect(
+        redPacket.connect(signers.deployer).claimRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "NotAllowlisted");
+    });
+
+    it("Should reject allowlisted users without a proof or with someone else's proof", async function () {
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "NotAllowlisted");
+
+      const charlieProof = getAllowlistProof(allowlist, signers.charlie.address)!;
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithProof(redPacketId, charlieProof)
+      ).to.be.revertedWithCustomError(redPacket, "NotAllowlisted");
+    });
+
+    it("Should let anyone claim an open red packet with an empty proof", async function () {
+      const result = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 100,
+        count: 1,
+        expireTime: await getExpireTime(24),
+        message: "Open",
+      });
+
+      await expect(redPacket.connect(signers.deployer).claimRedPacketWithProof(result.redPacketId, []))
+        .to.emit(redPacket, "RedPacketClaimed");
+    });
+  });
+
+  describe("Password-Protected Red Packets", function () {
+    const password = "恭喜发财";
+    let redPacketId: number;
+
+    beforeEach(async function () {
+      const result = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 1000,
+        count: 2,
+        expireTime: await getExpireTime(24),
+        message: "Say the magic words",
+        password,
+      });
+      redPacketId = Number(result.redPacketId);
+    });
+
+    it("Should store only the password-derived signer", async function () {
+      const packetInfo = await redPacket.getRedPacket(redPacketId);
+      expect(packetInfo.passwordSalt).to.not.equal(ethers.ZeroHash);
+      expect(packetInfo.passwordSigner).to.equal(await getPasswordSigner(password, packetInfo.passwordSalt));
+    });
+
+    it("Should derive a different signer for the same password on every packet", async function () {
+      const other = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 100,
+        count: 1,
+        expireTime: await getExpireTime(24),
+        message: "Same password",
+        password,
+      });
+
+      const first = await redPacket.getRedPacket(redPacketId);
+      const second = await redPacket.getRedPacket(other.redPacketId);
+      expect(second.passwordSalt).to.not.equal(first.passwordSalt);
+      expect(second.passwordSigner).to.not.equal(first.passwordSigner);
+    });
+
+    it("Should let users claim with the correct password", async function () {
+      const signature = await signPasswordClaim(redPacket, password, redPacketId, signers.bob.address);
+
+      await expect(redPacket.connect(signers.bob).claimRedPacketWithPassword(redPacketId, signature, []))
+        .to.emit(redPacket, "RedPacketClaimed")
+        .withArgs(redPacketId, signers.bob.address, 1);
+
+      expect(await decryptClaimAmount(redPacketId, signers.bob)).to.equal(500n);
+    });
+
+    it("Should reject a wrong or missing password", async function () {
+      const signature = await signPasswordClaim(redPacket, "wrong password", redPacketId, signers.bob.address);
+
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithPassword(redPacketId, signature, [])
+      ).to.be.revertedWithCustomError(redPacket, "InvalidPassword");
+
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "InvalidPassword");
+
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithPassword(redPacketId, "0x1234", [])
+      ).to.be.revertedWithCustomError(redPacket, "InvalidPassword");
+    });
+
+    it("Should reject a password signature replayed by another claimer", async function () {
+      // Charlie copies Bob's signature, e.g. from the mempool
+      const bobSignature = await signPasswordClaim(redPacket, password, redPacketId, signers.bob.address);
+
+      await expect(
+        redPacket.connect(signers.charlie).claimRedPacketWithPassword(redPacketId, bobSignature, [])
+      ).to.be.revertedWithCustomError(redPacket, "InvalidPassword");
+
+      await redPacket.connect(signers.bob).claimRedPacketWithPassword(redPacketId, bobSignature, []);
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithPassword(redPacketId, bobSignature, [])
+      ).to.be.revertedWithCustomError(redPacket, "AlreadyClaimed");
+    });
+
+    it("Should reject a password signature replayed on another red packet", async function () {
+      const other = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 100,
+        count: 1,
+        expireTime: await getExpireTime(24),
+        message: "Same password",
+        password,
+      });
+      const signature = await signPasswordClaim(redPacket, password, redPacketId, signers.bob.address);
+
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithPassword(other.redPacketId, signature, [])
+      ).to.be.revertedWithCustomError(redPacket, "InvalidPassword");
+    });
+  });
+
+  describe("Voucher-Gated Red Packets", function () {
+    let redPacketId: number;
+    let deadline: number;
+
+    beforeEach(async function () {
+      const result = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 1000,
+        count: 2,
+        expireTime: await getExpireTime(24),
+        message: "Giveaway",
+        voucherRequired: true,
+      });
+      redPacketId = Number(result.redPacketId);
+      deadline = await getExpireTime(1);
+    });
+
+    it("Should let users claim with a creator-signed voucher", async function () {
+      const voucher = await signClaimVoucher(redPacket, signers.alice, redPacketId, signers.bob.address, deadline);
+
+      await expect(redPacket.connect(signers.bob).claimRedPacketWithVoucher(redPacketId, deadline, voucher.signature))
+        .to.emit(redPacket, "RedPacketClaimed")
+        .withArgs(redPacketId, signers.bob.address, 1);
+
+      expect(await decryptClaimAmount(redPacketId, signers.bob)).to.equal(500n);
+    });
+
+    it("Should reject claims without a voucher or with a voucher not signed by the creator", async function () {
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacket(redPacketId)
+      ).to.be.revertedWithCustomError(redPacket, "InvalidVoucher");
+
+      const forged = await signClaimVoucher(redPacket, signers.bob, redPacketId, signers.bob.address, deadline);
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithVoucher(redPacketId, deadline, forged.signature)
+      ).to.be.revertedWithCustomError(redPacket, "InvalidVoucher");
+    });
+
+    it("Should reject expired vouchers and tampered deadlines", async function () {
+      const voucher = await signClaimVoucher(redPacket, signers.alice, redPacketId, signers.bob.address, deadline);
+
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithVoucher(redPacketId, deadline + 3600, voucher.signature)
+      ).to.be.revertedWithCustomError(redPacket, "InvalidVoucher");
+
+      await increaseTimeTo(BigInt(deadline + 1));
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithVoucher(redPacketId, deadline, voucher.signature)
+      ).to.be.revertedWithCustomError(redPacket, "VoucherExpired");
+    });
+
+    it("Should reject a voucher replayed by another claimer, on another red packet or twice", async function () {
+      const voucher = await signClaimVoucher(redPacket, signers.alice, redPacketId, signers.bob.address, deadline);
+
+      await expect(
+        redPacket.connect(signers.charlie).claimRedPacketWithVoucher(redPacketId, deadline, voucher.signature)
+      ).to.be.revertedWithCustomError(redPacket, "InvalidVoucher");
+
+      const other = await clientFor(signers.alice).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 100,
+        count: 1,
+        expireTime: await getExpireTime(24),
+        message: "Another giveaway",
+        voucherRequired: true,
+      });
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithVoucher(other.redPacketId, deadline, voucher.signature)
+      ).to.be.revertedWithCustomError(redPacket, "InvalidVoucher");
+
+      await redPacket.connect(signers.bob).claimRedPacketWithVoucher(redPacketId, deadline, voucher.signature);
+      await expect(
+        redPacket.connect(signers.bob).claimRedPacketWithVoucher(redPacketId, deadline, voucher.signature)
+      ).to.be.revertedWithCustomError(redPacket, "AlreadyClaimed");
+    });
+  });
+
+  describe("Red Packet Information", function () {
+    it("Should return correct red packet information", async function () {
+      const amount = 1000;
+      const count = 3;
+      const expireTime = await getExpireTime(24);
+      const message = "Test Message";
+
+      // Create encrypted input
+      const encryptedInput = await fhevm.createEncryptedInput(
+        tokenAddress,
+        redPacketAddress
+      ).add64(amount).encrypt();
+
+      // Create red packet
+      await redPacket.connect(signers.alice).createRedPacket(
+        tokenAddress,
+        0,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        count,
+        0,
+        expireTime,
+        message,
+        NO_RESTRICTIONS
+      );
+
+      // Get red packet info
+      const packetInfo = await redPacket.getRedPacket(0);
+      expect(packetInfo.id).to.equal(0);
+      expect(packetInfo.creator).to.equal(signers.alice.address);
+      expect(packetInfo.packetType).to.equal(0);
+      expect(packetInfo.status).to.equal(0);
+      expect(packetInfo.totalCount).to.equal(count);
+      expect(packetInfo.remainingCount).to.equal(count);
+      expect(packetInfo.expireTime).to.equal(expireTime);
+      expect(packetInfo.message).to.equal(message);
+      expect(packetInfo.exists).to.be.equal(true);
+    });
+
+    it("Should return empty claim record for non-claimer", async function () {
+      const amount = 1000;
+      const count = 3;
+      const expireTime = await getExpireTime(24);
+
+      // Create encrypted input
+      const encryptedInput = await fhevm.createEncryptedInput(
+        tokenAddress,
+        redPacketAddress
+      ).add64(amount).encrypt();
+
+      // Create red packet
+      await redPacket.connect(signers.alice).createRedPacket(
+        tokenAddress,
+        0,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        count,
+        0,
+        expireTime,
+        "Test",
+        NO_RESTRICTIONS
+      );
+
+      // Check claim record for non-claimer
+      const claimRecord = await redPacket.getClaimRecord(0, signers.bob.address);
+      expect(claimRecord.exists).to.be.equal(false);
+    });
+
+    it("Should return correct claim record after claiming", async function () {
+      const amount = 1000;
+      const count = 3;
+      const expireTime = await getExpireTime(24);
+
+      // Create encrypted input
+      const encryptedInput = await fhevm.createEncryptedInput(
+        tokenAddress,
+        redPacketAddress
+      ).add64(amount).encrypt();
+
+      // Create red packet
+      await redPacket.connect(signers.alice).createRedPacket(
+        tokenAddress,
+        0,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        count,
+        0,
+        expireTime,
+        "Test",
+        NO_RESTRICTIONS
+      );
+
+      // Claim red packet
+      await redPacket.connect(signers.bob).claimRedPacket(0);
+
+      // Check claim record
+      const claimRecord = await redPacket.getClaimRecord(0, signers.bob.address);
+      expect(claimRecord.exists).to.be.equal(true);
+      expect(claimRecord.user).to.equal(signers.bob.address);
+    });
+
+    it("Should correctly identify active red packets", async function () {
+      const amount = 1000;
+      const count = 3;
+      const expireTime = await getExpireTime(24);
+
+      // Create encrypted input
+      const encryptedInput = await fhevm.createEncryptedInput(
+        tokenAddress,
+        redPacketAddress
+      ).add64(amount).encrypt();
+
+      // Create red packet
+      await redPacket.connect(signers.alice).createRedPacket(
+        tokenAddress,
+        0,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+        count,
+        0,
+        expireTime,
+        "Test",
+        NO_RESTRICTIONS
+      );
+
+      // Check if active
+      expect(await redPacket.isRedPacketActive(0)).to.be.equal(true);
+
+      // Fast forward to expiration
+      await increaseTimeTo(BigInt(expireTime + 3600));
+
+      // Check if still active
+      expect(await redPacket.isRedPacketActive(0)).to.be.equal(false);
+    });
+  });
+
+  describe("Paginated Queries", function () {
+    // Helper function to create a red packet through the client
+    async function createPacket(creator: HardhatEthersSigner, message: string): Promise<number> {
+      const result = await clientFor(creator).createPacket({
+        packetType: RedPacketType.NORMAL,
+        amount: 100,
+        count: 2,
+        expireTime: await getExpireTime(24),
+        message,
+      });
+      return Number(result.redPacketId);
+    }
+
+    beforeEach(async function () {
+      await createPacket(signers.alice, "A0");
+      await createPacket(signers.bob, "B1");
+      await createPacket(signers.alice, "A2");
+      await createPacket(signers.alice, "A3");
+      await createPacket(signers.bob, "B4");
+    });
+
+    it("Should page through red packets", async function () {
+      const firstPage = await redPacket.getRedPackets(0, 2);
+      const lastPage = await redPacket.getRedPackets(4, 2);
+
+      expect(firstPage.map(packet => packet.message)).to.deep.equal(["A0", "B1"]);
+      expect(lastPage.map(packet => packet.message)).to.deep.equal(["B4"]);
+      expect(await redPacket.getRedPackets(5, 2)).to.have.length(0);
+      expect(await redPacket.getRedPackets(0, 1000)).to.have.length(5);
+    });
+
+    it("Should page through red packets by creator", async function () {
+      expect(await redPacket.getCreatedRedPacketCount(signers.alice.address)).to.equal(3);
+      expect(await redPacket.getCreatedRedPacketIds(signers.alice.address, 1, 10)).to.deep.equal([2n, 3n]);
+
+      const bobPackets = await redPacket.getRedPacketsByCreator(signers.bob.address, 0, 10);
+      expect(bobPackets.map(packet => packet.message)).to.deep.equal(["B1", "B4"]);
+      expect(await redPacket.getRedPacketsByCreator(signers.charlie.address, 0, 10)).to.have.length(0);
+    });
+
+    it("Should page through claimers and index claimed red packets per user", async function () {
+      await redPacket.connect(signers.charlie).claimRedPacket(0);
+      await redPacket.connect(signers.deployer).claimRedPacket(0);
+      await redPacket.connect(signers.charlie).claimRedPacket(3);
+
+      expect(await redPacket.getRedPacketClaimerCount(0)).to.equal(2);
+      expect(await redPacket.getRedPacketClaimersPage(0, 1, 10)).to.deep.equal([signers.deployer.address]);
+      expect(await redPacket.getRedPacketClaimersPage(0, 2, 10)).to.deep.equal([]);
+
+      expect(await redPacket.getClaimedRedPacketCount(signers.charlie.address)).to.equal(2);
+      expect(await redPacket.getClaimedRedPacketIds(signers.charlie.address, 0, 10)).to.deep.equal([0n, 3n]);
+    });
+  });
+
+  describe("Multiple Red Packets", function () {
+    it("Should handle multiple red packets correctly", async function () {
+      const amount1 = 1000;
+      const amount2 = 2000;
+      const count = 2;
+      const expireTime = await getExpireTime(24);
+
+      // Create first red packet
+      const encryptedInput1 = await fhevm.createEncryptedInput(
+        tokenAddress,
+        redPacketAddress
+      ).add64(amount1).encrypt();
+
+      await redPacket.connect(signers.alice).createRedPacket(
+        tokenAddress,
+        0,
+        encryptedInput1.handles[0],
+        encryptedInput1.inputProof,
+        count,
+        0,
+        expireTime,
+        "First Red Packet",
+        NO_RESTRICTIONS
+      );
+
+      // Create second red packet
+      const encryptedInput2 = await fhevm.createEncryptedInput(
+        tokenAddress,
+        redPacketAddress
+      ).add64(amount2).encrypt();
+
+      await redPacket.connect(signers.bob).createRedPacket(
+        tokenAddress,
+        1,
+        encryptedInput2.handles[0],
+        encryptedInput2.inputProof,
+        count,
+        0,
         expireTime,
-        "Second Red Packet"
+        "Second Red Packet",
+        NO_RESTRICTIONS
       );
 
       // Check red packet count
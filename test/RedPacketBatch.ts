@@ -0,0 +1,158 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  RedPacketClient,
+  RedPacketClientError,
+  RedPacketType,
+  isRedPacketError,
+  parseBatchManifest,
+  validateBatchManifest,
+} from "../src";
+import { ConfidentialToken, RedPacket } from "../types";
+
+// Helper function to get current block time
+async function getBlockTime(): Promise<number> {
+  return ethers.provider.getBlock("latest").then((block) => block!.timestamp);
+}
+
+async function deployFixture(owner: HardhatEthersSigner) {
+  const token = (await (
+    await ethers.getContractFactory("ConfidentialToken")
+  ).deploy(owner.address, 0, "Test Token", "TEST", "")) as ConfidentialToken;
+  const redPacket = (await (
+    await ethers.getContractFactory("RedPacket")
+  ).deploy(await token.getAddress())) as RedPacket;
+
+  return { token, redPacket };
+}
+
+describe("Batch Creation", function () {
+  describe("Manifest", function () {
+    it("Should parse CSV with quoted fields, comments and optional columns", function () {
+      const rows = parseBatchManifest(
+        [
+          "type,amount,count,expire,message,vouchers",
+          "# Lunar New Year",
+          'normal,1000,10,24,"Happy New Year, everyone!",',
+          "",
+          'random,500,5,48,"Say ""hi""",true',
+        ].join("\n"),
+      );
+
+      expect(rows).to.deep.equal([
+        {
+          type: "normal",
+          amount: "1000",
+          count: "10",
+          expire: "24",
+          message: "Happy New Year, everyone!",
+          vouchers: "",
+        },
+        { type: "random", amount: "500", count: "5", expire: "48", message: 'Say "hi"', vouchers: "true" },
+      ]);
+    });
+
+    it("Should parse a JSON array", function () {
+      const rows = parseBatchManifest(
+        JSON.stringify([{ type: 1, amount: 2000, count: 4, expire: 12, message: "Lucky", password: "sesame" }]),
+      );
+
+      expect(rows).to.deep.equal([
+        { type: "1", amount: "2000", count: "4", expire: "12", message: "Lucky", password: "sesame" },
+      ]);
+    });
+
+    it("Should reject unknown and missing columns", function () {
+      expect(() => parseBatchManifest("type,amount,count,expiry,message\n")).to.throw(
+        RedPacketClientError,
+        "Unknown manifest column(s): expiry",
+      );
+      expect(() => parseBatchManifest('[{"type":"normal","amount":1}]')).to.throw(
+        RedPacketClientError,
+        "Missing manifest column(s): count, expire, message",
+      );
+    });
+
+    it("Should report every row outside the contract limits", function () {
+      const rows = parseBatchManifest(
+        [
+          "type,amount,count,expire,message",
+          "normal,1000,10,24,Valid",
+          "lucky,1000,0,24,Bad type and count",
+          "random,1000,101,721,Too many and too late",
+          "normal,0,1,1,Nothing to share",
+        ].join("\n"),
+      );
+
+      const { packets, errors } = validateBatchManifest(rows, 1_000_000);
+      expect(packets).to.have.length(1);
+      expect(errors.map(({ row }) => row)).to.deep.equal([2, 2, 3, 3, 4]);
+      expect(errors[1].message).to.equal('count must be between 1 and 100, got "0"');
+      expect(errors[3].message).to.equal('expire must be between 1 and 720 hours, got "721"');
+    });
+
+    it("Should convert valid rows to packet parameters", function () {
+      const rows = parseBatchManifest("type,amount,count,expire,message,password,vouchers\nrandom,500,5,720,Hi,pw,yes");
+
+      const { packets, errors } = validateBatchManifest(rows, 1_000_000);
+      expect(errors).to.deep.equal([]);
+      expect(packets).to.deep.equal([
+        {
+          packetType: RedPacketType.RANDOM,
+          amount: 500n,
+          count: 5,
+          expireTime: 1_000_000 + 720 * 3600,
+          message: "Hi",
+          password: "pw",
+          voucherRequired: true,
+        },
+      ]);
+    });
+  });
+
+  describe("createPackets", function () {
+    let alice: HardhatEthersSigner;
+    let client: RedPacketClient;
+
+    beforeEach(async function () {
+      let deployer: HardhatEthersSigner;
+      [deployer, alice] = await ethers.getSigners();
+      const { token, redPacket } = await deployFixture(deployer);
+      await token.mint(alice.address, 1000000);
+
+      client = new RedPacketClient(redPacket.connect(alice), token.connect(alice), alice, fhevm);
+      await client.approveOperator();
+    });
+
+    it("Should create every packet of a batch in order", async function () {
+      const rows = parseBatchManifest(
+        ["type,amount,count,expire,message", "normal,1000,10,24,First", "random,500,5,48,Second"].join("\n"),
+      );
+      const { packets } = validateBatchManifest(rows, await getBlockTime());
+
+      const results = await client.createPackets(packets);
+      expect(results.map((result) => ("error" in result ? undefined : result.redPacketId))).to.deep.equal([0n, 1n]);
+
+      const second = await client.getPacket(1);
+      expect(second?.message).to.equal("Second");
+      expect(second?.packetType).to.equal(RedPacketType.RANDOM);
+      expect(await client.decrypt(second!.encryptedTotalAmount, await client.redPacket.getAddress())).to.equal(500n);
+    });
+
+    it("Should keep creating packets after one fails", async function () {
+      const expireTime = (await getBlockTime()) + 3600;
+      const valid = { packetType: RedPacketType.NORMAL, amount: 100, count: 2, expireTime, message: "Valid" };
+
+      const results = await client.createPackets([valid, { ...valid, count: 0 }, valid]);
+
+      expect("error" in results[1] && isRedPacketError(results[1].error, "InvalidCount")).to.equal(true);
+      expect(results.map((result) => ("error" in result ? undefined : result.redPacketId))).to.deep.equal([
+        0n,
+        undefined,
+        1n,
+      ]);
+    });
+  });
+});
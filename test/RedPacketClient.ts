@@ -0,0 +1,426 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm, network } from "hardhat";
+
+import {
+  DecryptionPermissionError,
+  MAX_AIRDROP_CHUNK_SIZE,
+  RedPacketClient,
+  RedPacketContractError,
+  RedPacketStatus,
+  RedPacketType,
+  buildAllowlist,
+  getAllowlistProof,
+  getEffectiveStatus,
+  getPasswordSigner,
+  getStatusName,
+  isRedPacketError,
+  splitAirdrop,
+} from "../src";
+import { ConfidentialToken, RedPacket } from "../types";
+
+// Helper function to get current block time and calculate expire time
+async function getExpireTime(hoursFromNow: number): Promise<number> {
+  const currentTime = await ethers.provider.getBlock("latest").then((block) => block!.timestamp);
+  return currentTime + hoursFromNow * 3600;
+}
+
+async function deployFixture(owner: HardhatEthersSigner) {
+  const token = (await (
+    await ethers.getContractFactory("ConfidentialToken")
+  ).deploy(owner.address, 0, "Test Token", "TEST", "")) as ConfidentialToken;
+  const redPacket = (await (
+    await ethers.getContractFactory("RedPacket")
+  ).deploy(await token.getAddress())) as RedPacket;
+
+  return { token, redPacket };
+}
+
+describe("RedPacketClient", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let aliceClient: RedPacketClient;
+  let bobClient: RedPacketClient;
+
+  before(async function () {
+    [deployer, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const { token, redPacket } = await deployFixture(deployer);
+    await token.mint(alice.address, 1000000);
+
+    aliceClient = new RedPacketClient(redPacket.connect(alice), token.connect(alice), alice, fhevm);
+    bobClient = aliceClient.withSigner(bob);
+
+    await aliceClient.approveOperator();
+  });
+
+  it("Should return the new packet id from createPacket", async function () {
+    const expireTime = await getExpireTime(24);
+    const first = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime,
+      message: "First",
+    });
+    const second = await aliceClient.createPacket({
+      packetType: RedPacketType.RANDOM,
+      amount: 500,
+      count: 3,
+      expireTime,
+      message: "Second",
+    });
+
+    expect(first.redPacketId).to.equal(0n);
+    expect(second.redPacketId).to.equal(1n);
+    expect(first.txHash).to.match(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("Should create packets with confidentialTransferAndCall without operator approval", async function () {
+    await aliceClient.token.connect(deployer).mint(bob.address, 5000);
+    const params = {
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(24),
+      message: "One transaction",
+    };
+
+    const { redPacketId } = await bobClient.transferAndCreatePacket(params);
+    expect(redPacketId).to.equal(0n);
+    expect((await bobClient.getPacket(redPacketId))!.creator).to.equal(bob.address);
+    expect(await bobClient.decryptBalance()).to.equal(4000n);
+
+    await expect(bobClient.transferAndCreatePacket({ ...params, count: 0 })).to.be.rejectedWith(
+      RedPacketContractError,
+      "InvalidCount",
+    );
+    expect(await bobClient.decryptBalance()).to.equal(4000n);
+  });
+
+  it("Should map packets to typed views", async function () {
+    const expireTime = await getExpireTime(24);
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.RANDOM,
+      amount: 1000,
+      count: 2,
+      expireTime,
+      message: "Typed",
+    });
+
+    const packet = await aliceClient.getPacket(redPacketId);
+    expect(packet).to.not.equal(undefined);
+    expect(packet!.creator).to.equal(alice.address);
+    expect(packet!.packetType).to.equal(RedPacketType.RANDOM);
+    expect(packet!.status).to.equal(RedPacketStatus.ACTIVE);
+    expect(packet!.expireTime).to.equal(BigInt(expireTime));
+    expect(packet!.isActive).to.be.equal(true);
+
+    expect(await aliceClient.getPacket(999)).to.equal(undefined);
+    expect(await aliceClient.listPackets()).to.have.length(1);
+  });
+
+  it("Should query packets by creator and effective status, one page at a time", async function () {
+    const expireTime = await getExpireTime(1);
+    for (const message of ["P0", "P1", "P2", "P3"]) {
+      await aliceClient.createPacket({ packetType: RedPacketType.NORMAL, amount: 100, count: 1, expireTime, message });
+    }
+    await bobClient.claim(1);
+    await aliceClient.cancel(3);
+
+    const messages = (packets: { message: string }[]) => packets.map((packet) => packet.message);
+    expect(messages(await aliceClient.queryPackets({ offset: 1, limit: 2 }))).to.deep.equal(["P1", "P2"]);
+    expect(messages(await aliceClient.queryPackets({ creator: bob.address }))).to.deep.equal([]);
+
+    const active = await aliceClient.queryPackets({ creator: alice.address, status: RedPacketStatus.ACTIVE });
+    expect(messages(active)).to.deep.equal(["P0", "P2"]);
+    expect(messages(await aliceClient.queryPackets({ status: RedPacketStatus.ACTIVE, offset: 1 }))).to.deep.equal([
+      "P2",
+    ]);
+
+    // Unclaimed packets past their expire time are reported as expired
+    await network.provider.send("evm_increaseTime", [7200]);
+    await network.provider.send("evm_mine");
+    const expired = await aliceClient.queryPackets({ status: RedPacketStatus.EXPIRED });
+    expect(messages(expired)).to.deep.equal(["P0", "P2"]);
+    expect(getEffectiveStatus(expired[0])).to.equal(RedPacketStatus.EXPIRED);
+    expect(getStatusName(expired[0])).to.equal("EXPIRED");
+
+    expect(await aliceClient.getClaimers(1)).to.deep.equal([bob.address]);
+    expect(await bobClient.getClaimedPacketIds()).to.deep.equal([1n]);
+    expect(await aliceClient.getCreatedPacketIds()).to.deep.equal([0n, 1n, 2n, 3n]);
+  });
+
+  it("Should fund packets with any supported token and filter packets by token", async function () {
+    const otherToken = (await (
+      await ethers.getContractFactory("ConfidentialToken")
+    ).deploy(deployer.address, 0, "Other Token", "OTHER", "")) as ConfidentialToken;
+    const otherTokenAddress = await otherToken.getAddress();
+    await otherToken.mint(alice.address, 1000);
+
+    await aliceClient.withSigner(deployer).addToken(otherTokenAddress);
+    expect(await aliceClient.getSupportedTokens()).to.deep.equal([
+      await aliceClient.token.getAddress(),
+      otherTokenAddress,
+    ]);
+    await expect(aliceClient.addToken(otherTokenAddress)).to.be.rejectedWith("OwnableUnauthorizedAccount");
+
+    const params = { packetType: RedPacketType.NORMAL, amount: 100, count: 1, expireTime: await getExpireTime(24) };
+    const otherClient = aliceClient.withToken(otherToken);
+    await otherClient.approveOperator();
+    await aliceClient.createPacket({ ...params, message: "Default" });
+    await otherClient.createPacket({ ...params, message: "Other" });
+
+    const packets = await aliceClient.queryPackets({ token: otherTokenAddress });
+    expect(packets.map((packet) => packet.message)).to.deep.equal(["Other"]);
+    expect(packets[0].token).to.equal(otherTokenAddress);
+  });
+
+  it("Should claim and decrypt the claimed amount", async function () {
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(24),
+      message: "Claim",
+    });
+
+    expect(await bobClient.decryptClaim(redPacketId)).to.equal(undefined);
+
+    const claim = await bobClient.claim(redPacketId);
+    expect(claim.redPacketId).to.equal(redPacketId);
+    expect(claim.remainingCount).to.equal(1n);
+
+    expect(await bobClient.decryptClaim(redPacketId)).to.equal(500n);
+    expect(await bobClient.decryptBalance()).to.equal(500n);
+  });
+
+  it("Should split airdrops into chunks that each fit in one transaction", async function () {
+    const recipients = Array.from({ length: 11 }, (_, i) => ethers.getAddress(ethers.toBeHex(i + 1, 20)));
+    const equal = splitAirdrop(1100, recipients, RedPacketType.NORMAL);
+    expect(equal.map((chunk) => [chunk.amount, chunk.recipients.length])).to.deep.equal([
+      [1000n, MAX_AIRDROP_CHUNK_SIZE[RedPacketType.NORMAL]],
+      [100n, 1],
+    ]);
+
+    const random = splitAirdrop(1000, [bob.address, recipients[0]], RedPacketType.RANDOM);
+    expect(random.map((chunk) => chunk.amount)).to.deep.equal([1000n]);
+
+    const airdrops = [
+      ...equal.map((chunk) => ({ packetType: RedPacketType.NORMAL, ...chunk })),
+      ...random.map((chunk) => ({ packetType: RedPacketType.RANDOM, ...chunk })),
+    ];
+    for (const params of airdrops) {
+      const result = await aliceClient.airdrop({ message: "Airdrop", ...params });
+      expect(result.recipients).to.equal(params.recipients.length);
+    }
+
+    const first = await aliceClient.getPacket(0);
+    expect(first?.status).to.equal(RedPacketStatus.EMPTY);
+    expect(await bobClient.decryptClaim(2)).to.equal(await bobClient.decryptBalance());
+    expect(() => splitAirdrop(1000, [bob.address, bob.address.toLowerCase()], RedPacketType.NORMAL)).to.throw(
+      "Duplicate recipient",
+    );
+    expect(() => splitAirdrop(1000, recipients, RedPacketType.RANDOM, 3)).to.throw(
+      "Chunk size must be between 1 and 2",
+    );
+    // Chunk totals would be decided in plaintext, so a random airdrop is never split
+    expect(() => splitAirdrop(1000, recipients.slice(0, 3), RedPacketType.RANDOM)).to.throw(
+      "A random airdrop cannot be split",
+    );
+  });
+
+  it("Should find expired packets and finalize them in one transaction", async function () {
+    const expireTime = await getExpireTime(1);
+    for (const message of ["First", "Second"]) {
+      await aliceClient.createPacket({ packetType: RedPacketType.NORMAL, amount: 1000, count: 2, expireTime, message });
+    }
+    await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(24),
+      message: "Running",
+    });
+    expect(await bobClient.findExpiredPacketIds()).to.deep.equal([]);
+
+    await network.provider.send("evm_increaseTime", [7200]);
+    await network.provider.send("evm_mine");
+    const expired = await bobClient.findExpiredPacketIds();
+    expect(expired).to.deep.equal([0n, 1n]);
+
+    const result = await bobClient.finalizeExpired([...expired, 2n]);
+    expect(result.redPacketIds).to.deep.equal([0n, 1n]);
+    expect((await aliceClient.getPacket(1))?.status).to.equal(RedPacketStatus.EXPIRED);
+    expect(await bobClient.findExpiredPacketIds()).to.deep.equal([]);
+    expect(await aliceClient.decryptBalance()).to.equal(999000n);
+  });
+
+  it("Should report scheduled packets as active but not yet claimable", async function () {
+    const startTime = await getExpireTime(2);
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      startTime,
+      expireTime: startTime + 3600,
+      message: "Scheduled",
+    });
+
+    const packet = await bobClient.getPacket(redPacketId);
+    expect(packet).to.include({ startTime: BigInt(startTime), isActive: false, isScheduled: true });
+    expect(getEffectiveStatus(packet!)).to.equal(RedPacketStatus.ACTIVE);
+    // Task JSON output uses the enum names, scheduling is the separate isScheduled flag
+    expect(getStatusName(packet!)).to.equal("ACTIVE");
+    expect(await bobClient.queryPackets({ status: RedPacketStatus.ACTIVE })).to.have.length(1);
+    await expect(bobClient.claim(redPacketId)).to.be.rejectedWith(RedPacketContractError, "RedPacketNotStarted");
+
+    await network.provider.send("evm_increaseTime", [7200]);
+    await network.provider.send("evm_mine");
+    expect(await bobClient.getPacket(redPacketId)).to.include({ isActive: true, isScheduled: false });
+    expect((await bobClient.claim(redPacketId)).remainingCount).to.equal(1n);
+  });
+
+  it("Should reveal the lucky king of a fully claimed random packet", async function () {
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.RANDOM,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(1),
+      message: "Lucky",
+    });
+    await aliceClient.claim(redPacketId);
+    await bobClient.claim(redPacketId);
+    const aliceAmount = (await aliceClient.decryptClaim(redPacketId))!;
+    const bobAmount = (await bobClient.decryptClaim(redPacketId))!;
+
+    expect(await bobClient.getLuckyKing(redPacketId)).to.deep.equal({ luckyKing: undefined, revealRequested: false });
+    await bobClient.revealLuckyKing(redPacketId);
+    expect(await bobClient.getLuckyKing(redPacketId)).to.deep.equal({ luckyKing: undefined, revealRequested: true });
+
+    await fhevm.awaitDecryptionOracle();
+    const { luckyKing } = await bobClient.getLuckyKing(redPacketId);
+    expect(luckyKing).to.equal(bobAmount > aliceAmount ? bob.address : alice.address);
+  });
+
+  it("Should disclose a claimed amount only once the oracle has answered", async function () {
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(1),
+      message: "Disclose",
+    });
+    await bobClient.claim(redPacketId);
+
+    await bobClient.discloseClaim(redPacketId);
+    expect(await bobClient.getClaim(redPacketId)).to.include({ disclosureRequested: true, disclosedAmount: undefined });
+
+    await fhevm.awaitDecryptionOracle();
+    expect((await aliceClient.getClaim(redPacketId, bob.address))?.disclosedAmount).to.equal(500n);
+    await expect(aliceClient.discloseClaim(redPacketId)).to.be.rejectedWith(RedPacketContractError, "ClaimNotFound");
+  });
+
+  it("Should create allowlisted packets and claim them with a proof", async function () {
+    const allowlist = buildAllowlist([bob.address, deployer.address]);
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(24),
+      message: "Allowlist",
+      merkleRoot: allowlist.root,
+    });
+
+    expect((await aliceClient.getPacket(redPacketId))!.merkleRoot).to.equal(allowlist.root);
+    await expect(bobClient.claim(redPacketId)).to.be.rejectedWith(RedPacketContractError, "NotAllowlisted");
+
+    const claim = await bobClient.claim(redPacketId, { proof: getAllowlistProof(allowlist, bob.address) });
+    expect(claim.remainingCount).to.equal(1n);
+  });
+
+  it("Should create password-protected packets and claim them with the password", async function () {
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(24),
+      message: "Password",
+      password: "open sesame",
+    });
+
+    const packet = (await aliceClient.getPacket(redPacketId))!;
+    expect(packet.passwordSigner).to.equal(await getPasswordSigner("open sesame", packet.passwordSalt));
+    await expect(bobClient.claim(redPacketId, { password: "wrong" })).to.be.rejectedWith(
+      RedPacketContractError,
+      "InvalidPassword",
+    );
+
+    const claim = await bobClient.claim(redPacketId, { password: "open sesame" });
+    expect(claim.remainingCount).to.equal(1n);
+  });
+
+  it("Should sign vouchers and claim voucher-gated packets with them", async function () {
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(24),
+      message: "Vouchers",
+      voucherRequired: true,
+    });
+
+    expect((await aliceClient.getPacket(redPacketId))!.voucherRequired).to.equal(true);
+    await expect(bobClient.claim(redPacketId)).to.be.rejectedWith(RedPacketContractError, "InvalidVoucher");
+
+    const voucher = await aliceClient.signVoucher(redPacketId, bob.address, await getExpireTime(1));
+    expect(voucher.redPacketId).to.equal(redPacketId.toString());
+
+    const claim = await bobClient.claim(redPacketId, { voucher });
+    expect(claim.remainingCount).to.equal(1n);
+  });
+
+  it("Should decode custom errors into typed exceptions", async function () {
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(24),
+      message: "Errors",
+    });
+    await bobClient.claim(redPacketId);
+
+    let caught: unknown;
+    try {
+      await bobClient.claim(redPacketId);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).to.be.instanceOf(RedPacketContractError);
+    expect(isRedPacketError(caught, "AlreadyClaimed")).to.be.equal(true);
+
+    await network.provider.send("evm_increaseTime", [3600]);
+    await expect(bobClient.refund(redPacketId)).to.be.rejectedWith(RedPacketContractError, "NotRedPacketCreator");
+    await expect(bobClient.claim(999)).to.be.rejectedWith(RedPacketContractError, "RedPacketNotFound");
+  });
+
+  it("Should raise DecryptionPermissionError without ACL permission", async function () {
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(24),
+      message: "ACL",
+    });
+    const packet = await aliceClient.getPacket(redPacketId);
+
+    // The total amount is only allowed to the creator
+    await expect(
+      bobClient.decrypt(packet!.encryptedTotalAmount, await bobClient.redPacket.getAddress()),
+    ).to.be.rejectedWith(DecryptionPermissionError);
+  });
+});
@@ -0,0 +1,198 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import * as fs from "fs";
+import { ethers, fhevm, network } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  RedPacketClient,
+  RedPacketIndexer,
+  RedPacketStatus,
+  RedPacketType,
+  isIndexedPacketActive,
+  isIndexedPacketExpired,
+} from "../src";
+import { ConfidentialToken, RedPacket } from "../types";
+
+// Helper function to get current block time and calculate expire time
+async function getExpireTime(hoursFromNow: number): Promise<number> {
+  const currentTime = await ethers.provider.getBlock("latest").then((block) => block!.timestamp);
+  return currentTime + hoursFromNow * 3600;
+}
+
+async function deployFixture(owner: HardhatEthersSigner) {
+  const token = (await (
+    await ethers.getContractFactory("ConfidentialToken")
+  ).deploy(owner.address, 0, "Test Token", "TEST", "")) as ConfidentialToken;
+  const redPacket = (await (
+    await ethers.getContractFactory("RedPacket")
+  ).deploy(await token.getAddress())) as RedPacket;
+  const startBlock = (await redPacket.deploymentTransaction()!.wait())!.blockNumber;
+
+  return { token, redPacket, startBlock };
+}
+
+describe("RedPacketIndexer", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let charlie: HardhatEthersSigner;
+  let aliceClient: RedPacketClient;
+  let startBlock: number;
+  let storePath: string;
+
+  // Helper function to open an indexer on the shared store, as a new process would
+  function openIndexer(): RedPacketIndexer {
+    return new RedPacketIndexer(aliceClient.redPacket, { storePath, startBlock, blockRange: 5 });
+  }
+
+  async function createPacket(message: string, count: number = 2): Promise<number> {
+    const { redPacketId } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count,
+      expireTime: await getExpireTime(24),
+      message,
+    });
+    return Number(redPacketId);
+  }
+
+  before(async function () {
+    [deployer, alice, bob, charlie] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const fixture = await deployFixture(deployer);
+    await fixture.token.mint(alice.address, 1000000);
+    startBlock = fixture.startBlock;
+
+    aliceClient = new RedPacketClient(fixture.redPacket.connect(alice), fixture.token.connect(alice), alice, fhevm);
+    await aliceClient.approveOperator();
+
+    storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "redpacket-index-")), "index.json");
+  });
+
+  afterEach(function () {
+    fs.rmSync(path.dirname(storePath), { recursive: true, force: true });
+  });
+
+  it("Should replay created, claimed and cancelled events into packets and claims", async function () {
+    const first = await createPacket("First");
+    const second = await createPacket("Second", 3);
+    await aliceClient.withSigner(bob).claim(first);
+    await aliceClient.withSigner(charlie).claim(first);
+    await aliceClient.withSigner(bob).claim(second);
+    await aliceClient.cancel(second);
+
+    const indexer = openIndexer();
+    const result = await indexer.sync();
+    expect(result.fromBlock).to.equal(startBlock);
+    expect(result.newEvents).to.equal(6);
+
+    const packets = indexer.listPackets();
+    expect(packets.map((packet) => packet.message)).to.deep.equal(["First", "Second"]);
+    expect(packets[0]).to.include({ creator: alice.address, status: RedPacketStatus.EMPTY, remainingCount: 0 });
+    expect(packets[1]).to.include({ status: RedPacketStatus.CANCELLED, remainingCount: 2, totalCount: 3 });
+    expect(packets[1].merkleRoot).to.equal(ethers.ZeroHash);
+    expect(packets[0].token).to.equal(await aliceClient.token.getAddress());
+    expect(packets[0].startTime).to.equal(packets[0].createdAt);
+
+    expect(indexer.getClaims(first).map((claim) => claim.user)).to.deep.equal([bob.address, charlie.address]);
+    expect(indexer.getClaimsByUser(bob.address).map((claim) => claim.redPacketId)).to.deep.equal([first, second]);
+
+    const now = await getExpireTime(0);
+    expect(isIndexedPacketActive(packets[0], now)).to.equal(false);
+  });
+
+  it("Should attach disclosed amounts to their claims", async function () {
+    const redPacketId = await createPacket("Disclose");
+    await aliceClient.withSigner(bob).claim(redPacketId);
+    await aliceClient.withSigner(charlie).claim(redPacketId);
+    await aliceClient.withSigner(bob).discloseClaim(redPacketId);
+    await fhevm.awaitDecryptionOracle();
+
+    await openIndexer().sync();
+
+    // Replayed from disk, where the amount is stored as a string
+    const indexer = openIndexer();
+    await indexer.sync();
+    expect(indexer.getClaims(redPacketId).map((claim) => claim.disclosedAmount)).to.deep.equal([500n, undefined]);
+  });
+
+  it("Should resume from the checkpoint stored on disk", async function () {
+    const first = await createPacket("First");
+    await openIndexer().sync();
+
+    await aliceClient.withSigner(bob).claim(first);
+    await createPacket("Second");
+
+    // A fresh indexer only scans the blocks after the stored checkpoint
+    const indexer = openIndexer();
+    const checkpoint = (await ethers.provider.getBlockNumber()) - 2;
+    const result = await indexer.sync();
+    expect(result.fromBlock).to.equal(checkpoint + 1);
+    expect(result.newEvents).to.equal(2);
+
+    expect(indexer.listPackets()).to.have.length(2);
+    expect(indexer.getPacket(first)!.remainingCount).to.equal(1);
+
+    const upToDate = await indexer.sync();
+    expect(upToDate.fromBlock).to.equal(undefined);
+    expect(upToDate.newEvents).to.equal(0);
+  });
+
+  it("Should only report packets past their expire time as expired, not scheduled ones", async function () {
+    const open = await createPacket("Open");
+    const startTime = await getExpireTime(2);
+    const { redPacketId: scheduled } = await aliceClient.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      startTime,
+      expireTime: startTime + 3600,
+      message: "Scheduled",
+    });
+
+    const indexer = openIndexer();
+    await indexer.sync();
+    const [openPacket, scheduledPacket] = [indexer.getPacket(open)!, indexer.getPacket(Number(scheduled))!];
+
+    // Before the start the scheduled packet is neither claimable nor expired
+    const now = await getExpireTime(0);
+    expect(isIndexedPacketActive(scheduledPacket, now)).to.equal(false);
+    expect([openPacket, scheduledPacket].map((packet) => isIndexedPacketExpired(packet, now))).to.deep.equal([
+      false,
+      false,
+    ]);
+
+    // Past the open packet's expiry (24h), the scheduled one (3h) has expired too
+    const later = now + 25 * 3600;
+    expect([openPacket, scheduledPacket].map((packet) => isIndexedPacketExpired(packet, later))).to.deep.equal([
+      true,
+      true,
+    ]);
+    expect(isIndexedPacketExpired(scheduledPacket, startTime + 60)).to.equal(false);
+  });
+
+  it("Should roll back events from blocks dropped by a reorg", async function () {
+    const redPacketId = await createPacket("Reorg");
+    const indexer = openIndexer();
+    await indexer.sync();
+
+    const snapshot = await network.provider.send("evm_snapshot");
+    await aliceClient.withSigner(bob).claim(redPacketId);
+    await indexer.sync();
+    expect(indexer.getClaims(redPacketId).map((claim) => claim.user)).to.deep.equal([bob.address]);
+
+    // Replace Bob's claim block with a different chain where Charlie claims instead
+    await network.provider.send("evm_revert", [snapshot]);
+    await network.provider.send("evm_mine");
+    await aliceClient.withSigner(charlie).claim(redPacketId);
+
+    const result = await indexer.sync();
+    expect(result.rolledBackTo).to.be.a("number");
+    expect(indexer.getClaims(redPacketId).map((claim) => claim.user)).to.deep.equal([charlie.address]);
+    expect(indexer.getPacket(redPacketId)!.remainingCount).to.equal(1);
+  });
+});
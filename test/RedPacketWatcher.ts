@@ -0,0 +1,165 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { Provider } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import { RedPacketClient, RedPacketType, RedPacketWatcher, WatchedEvent, WatcherStoppedError } from "../src";
+import { ConfidentialToken, RedPacket } from "../types";
+
+// Helper function to get current block time and calculate expire time
+async function getExpireTime(hoursFromNow: number): Promise<number> {
+  const currentTime = await ethers.provider.getBlock("latest").then((block) => block!.timestamp);
+  return currentTime + hoursFromNow * 3600;
+}
+
+async function deployFixture(owner: HardhatEthersSigner) {
+  const token = (await (
+    await ethers.getContractFactory("ConfidentialToken")
+  ).deploy(owner.address, 0, "Test Token", "TEST", "")) as ConfidentialToken;
+  const redPacket = (await (
+    await ethers.getContractFactory("RedPacket")
+  ).deploy(await token.getAddress())) as RedPacket;
+
+  return { token, redPacket };
+}
+
+describe("RedPacketWatcher", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let charlie: HardhatEthersSigner;
+  let aliceClient: RedPacketClient;
+  let bobClient: RedPacketClient;
+
+  async function createPacket(client: RedPacketClient, message: string): Promise<number> {
+    const { redPacketId } = await client.createPacket({
+      packetType: RedPacketType.NORMAL,
+      amount: 1000,
+      count: 2,
+      expireTime: await getExpireTime(24),
+      message,
+    });
+    return Number(redPacketId);
+  }
+
+  before(async function () {
+    [deployer, alice, bob, charlie] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const { token, redPacket } = await deployFixture(deployer);
+    await token.mint(alice.address, 1000000);
+    await token.mint(bob.address, 1000000);
+
+    aliceClient = new RedPacketClient(redPacket.connect(alice), token.connect(alice), alice, fhevm);
+    bobClient = aliceClient.withSigner(bob);
+    await aliceClient.approveOperator();
+    await bobClient.approveOperator();
+  });
+
+  it("Should only report events mined after the watcher started", async function () {
+    const before = await createPacket(aliceClient, "Before");
+    const watcher = new RedPacketWatcher(aliceClient.redPacket);
+    expect(await watcher.poll()).to.deep.equal([]);
+
+    await aliceClient.withSigner(charlie).claim(before);
+    const after = await createPacket(aliceClient, "After");
+
+    const events = await watcher.poll();
+    expect(events.map((event) => event.name)).to.deep.equal(["RedPacketClaimed", "RedPacketCreated"]);
+    expect(events[0]).to.include({ redPacketId: before, user: charlie.address, remainingCount: 1 });
+    expect(events[1]).to.include({ redPacketId: after, creator: alice.address, message: "After", totalCount: 2 });
+
+    expect(await watcher.poll()).to.deep.equal([]);
+  });
+
+  it("Should resume from a given block", async function () {
+    const redPacketId = await createPacket(aliceClient, "Resume");
+    const resumeBlock = (await ethers.provider.getBlockNumber()) + 1;
+    await aliceClient.withSigner(charlie).claim(redPacketId);
+
+    const watcher = new RedPacketWatcher(aliceClient.redPacket, { fromBlock: resumeBlock });
+    const events = await watcher.poll();
+    expect(events.map((event) => event.name)).to.deep.equal(["RedPacketClaimed"]);
+    expect(events[0].blockNumber).to.equal(resumeBlock);
+    expect(watcher.nextBlock).to.equal(resumeBlock + 1);
+  });
+
+  it("Should filter events by packet id and by creator", async function () {
+    const alicePacket = await createPacket(aliceClient, "Alice");
+    const bobPacket = await createPacket(bobClient, "Bob");
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    await aliceClient.withSigner(charlie).claim(alicePacket);
+    await aliceClient.withSigner(charlie).claim(bobPacket);
+    await createPacket(bobClient, "Bob again");
+
+    const byId = await new RedPacketWatcher(aliceClient.redPacket, { fromBlock, redPacketId: bobPacket }).poll();
+    expect(byId.map((event) => [event.name, event.redPacketId])).to.deep.equal([["RedPacketClaimed", bobPacket]]);
+
+    // Claims of packets created before fromBlock are matched through the contract
+    const byCreator = await new RedPacketWatcher(aliceClient.redPacket, { fromBlock, creator: bob.address }).poll();
+    expect(byCreator.map((event) => event.name)).to.deep.equal(["RedPacketClaimed", "RedPacketCreated"]);
+    expect(byCreator[0].redPacketId).to.equal(bobPacket);
+  });
+
+  describe("Polling failures", function () {
+    let provider: Provider;
+    let failures: number;
+
+    // Makes the next `count` eth_getLogs requests fail
+    function failGetLogs(count: number) {
+      failures = count;
+      const getLogs = provider.getLogs.bind(provider);
+      provider.getLogs = async (filter) => {
+        if (failures > 0) {
+          failures--;
+          throw new Error("RPC unavailable");
+        }
+        return getLogs(filter);
+      };
+    }
+
+    beforeEach(function () {
+      provider = aliceClient.redPacket.runner!.provider!;
+    });
+
+    afterEach(function () {
+      // Restore the prototype method
+      delete (provider as Partial<Provider>).getLogs;
+    });
+
+    it("Should retry failed polls with growing delays without missing events", async function () {
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+      const redPacketId = await createPacket(aliceClient, "Retried");
+      failGetLogs(2);
+
+      const controller = new AbortController();
+      const events: WatchedEvent[] = [];
+      const delays: number[] = [];
+      await new RedPacketWatcher(aliceClient.redPacket, { fromBlock }).watch(
+        (event) => {
+          events.push(event);
+          controller.abort();
+        },
+        { signal: controller.signal, retryDelay: 1, onRetry: (_error, delay) => delays.push(delay) },
+      );
+
+      expect(delays).to.deep.equal([1, 2]);
+      expect(events.map((event) => [event.name, event.redPacketId])).to.deep.equal([["RedPacketCreated", redPacketId]]);
+    });
+
+    it("Should give up after maxRetries failures in a row with the block to resume from", async function () {
+      const watcher = new RedPacketWatcher(aliceClient.redPacket);
+      await watcher.poll();
+      const resumeBlock = watcher.nextBlock;
+      await createPacket(aliceClient, "Missed");
+      failGetLogs(Infinity);
+
+      const error = await watcher.watch(() => {}, { maxRetries: 2, retryDelay: 1 }).catch((caught: unknown) => caught);
+      expect(error).to.be.instanceOf(WatcherStoppedError);
+      expect(error).to.include({ attempts: 3, nextBlock: resumeBlock });
+      expect(watcher.nextBlock).to.equal(resumeBlock);
+    });
+  });
+});